@@ -5,7 +5,7 @@ let dev = process.argv[2] === '--dev'
 const base = {
 	entryPoints: [
 		'src/main.ts',
-		'src/file-router/routes.ts',
+		'src/file-router/index.ts',
 		'src/islands/index.ts',
 		'src/islands/providers/preact/index.ts',
 		'src/islands/providers/preact/ssr.tsx',
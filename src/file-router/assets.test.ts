@@ -0,0 +1,93 @@
+import { assetTransforms, fontType } from './assets.ts'
+import type { HTMLTransformOptions } from './fileRoute.ts'
+import type { Route, ErrorRoute } from './routes.ts'
+
+const noAssets = { stylesheets: [], scripts: [], modulepreloads: [], preloads: [] }
+
+const transforms = assetTransforms({
+	stylesheets: ['/assets/global.css'],
+	routes: {
+		'/blog/[slug].tsx': { 
+			...noAssets, 
+			stylesheets: ['/assets/global.css', '/assets/post.css'], 
+			scripts: ['/assets/post.js'] 
+		},
+		'/_error.tsx': { ...noAssets, stylesheets: ['/assets/error.css'] },
+	}
+})
+
+const html = '<html>\n\t<head>\n\t</head>\n\t<body>\n\t</body>\n</html>'
+
+function options(route?: string, errorRoute?: string): HTMLTransformOptions {
+	return {
+		request: new Request('http://localhost/'),
+		isErrorRequest: !!errorRoute,
+		route: route ? { name: route } as Route : undefined,
+		errorRoute: errorRoute ? { name: errorRoute } as ErrorRoute : undefined,
+	}
+}
+
+describe('route assets', () => {
+
+	test('add the route\'s stylesheets and scripts to the page', async () => {
+		const page = await transforms.htmlTransform(html, options('/blog/[slug].tsx'))
+		expect(page.match(/<link[^>]+>/g)).toEqual([
+			'<link rel="stylesheet" href="/assets/global.css">',
+			'<link rel="stylesheet" href="/assets/post.css">',
+		])
+		expect(page.match(/<script[^>]+>/g)).toEqual(['<script type="module" src="/assets/post.js">'])
+	})
+
+	test('add only global stylesheets to other pages', async () => {
+		const page = await transforms.htmlTransform(html, options('/about.tsx'))
+		expect(page.match(/<link[^>]+>/g)).toEqual(['<link rel="stylesheet" href="/assets/global.css">'])
+		expect(page).not.toContain('<script')
+	})
+
+	test('use the assets of error pages', async () => {
+		const page = await transforms.htmlTransform(html, options('/blog/[slug].tsx', '/_error.tsx'))
+		expect(page.match(/<link[^>]+>/g)).toEqual([
+			'<link rel="stylesheet" href="/assets/global.css">',
+			'<link rel="stylesheet" href="/assets/error.css">',
+		])
+		expect(page).not.toContain('<script')
+	})
+})
+
+describe('preload hints', () => {
+
+	const preloads = assetTransforms({
+		stylesheets: [],
+		routes: {
+			'/index.tsx': {
+				stylesheets: ['/assets/home.css'],
+				scripts: ['/assets/home.js'],
+				modulepreloads: ['/assets/chunk.js'],
+				preloads: ['/assets/inter.woff2'],
+			}
+		}
+	})
+
+	test('are added to the head', async () => {
+		const page = await preloads.htmlTransform(html, options('/index.tsx'))
+		expect(page.match(/<link[^>]+>/g)).toEqual([
+			'<link rel="stylesheet" href="/assets/home.css">',
+			'<link rel="modulepreload" href="/assets/chunk.js">',
+			'<link rel="preload" href="/assets/inter.woff2" as="font" type="font/woff2" crossorigin>',
+		])
+	})
+
+	test('are listed as Link header values', () => {
+		expect(preloads.preloadLinks({ route: { name: '/index.tsx' } as Route })).toEqual([
+			'</assets/home.css>; rel=preload; as=style',
+			'</assets/home.js>; rel=modulepreload',
+			'</assets/chunk.js>; rel=modulepreload',
+			'</assets/inter.woff2>; rel=preload; as=font; type=font/woff2; crossorigin',
+		])
+	})
+
+	test('only preload fonts', () => {
+		expect(fontType('/assets/inter.woff2?v=1')).toBe('font/woff2')
+		expect(fontType('/assets/logo.svg')).toBeUndefined()
+	})
+})
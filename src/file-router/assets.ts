@@ -0,0 +1,100 @@
+import { addToHead, addToBody, addToStream } from './html.ts'
+import type { HTMLTransformOptions, UserHTMLTransform, UserHTMLStreamTransform } from './fileRoute.ts'
+
+/**
+ * Built assets for a route, from its module's imports (and its layouts' imports)
+ */
+export type RouteAssets = {
+	stylesheets: string[]
+	// client entries for the route's islands and client imports
+	scripts: string[]
+	// chunks imported by the route's scripts
+	modulepreloads: string[]
+	// fonts referenced by the route's css and imports
+	preloads: string[]
+}
+
+// sends preload hints as `Link` headers, and as `103 Early Hints` where the server supports them
+export type PreloadHeaders = false | 'link' | 'early-hints'
+
+type AssetTransformsArgs = {
+	// asset urls for every page
+	stylesheets: string[]
+	// assets for each route, by route name
+	routes: Record<string, RouteAssets>
+}
+
+type RouteAssetOptions = Pick<HTMLTransformOptions, 'route' | 'errorRoute'>
+
+const fontTypes: Record<string, string> = {
+	woff2: 'font/woff2',
+	woff: 'font/woff',
+	ttf: 'font/ttf',
+	otf: 'font/otf',
+}
+
+/**
+ * Font mime type for preloaded urls, or undefined for other files
+ */
+export function fontType(href: string): string | undefined {
+	const extension = href.replace(/[?#].*$/, '').split('.').pop()
+	return extension ? fontTypes[extension] : undefined
+}
+
+/**
+ * Html transforms that add stylesheets, scripts and preload hints for the rendered route.
+ * Error pages get the assets of their `_error` or `_404` route
+ */
+export function assetTransforms({ stylesheets, routes }: AssetTransformsArgs) {
+
+	function routeAssets({ route, errorRoute }: RouteAssetOptions): RouteAssets {
+		const name = (errorRoute || route)?.name
+		const assets = name ? routes[name] : undefined
+		return {
+			stylesheets: [...new Set([...stylesheets, ...(assets?.stylesheets || [])])],
+			scripts: assets?.scripts || [],
+			modulepreloads: assets?.modulepreloads || [],
+			preloads: assets?.preloads || []
+		}
+	}
+
+	function tags(options: RouteAssetOptions) {
+		const assets = routeAssets(options)
+		return {
+			head: [
+				...assets.stylesheets.map(href => `<link rel="stylesheet" href="${href}">`),
+				...assets.modulepreloads.map(href => `<link rel="modulepreload" href="${href}">`),
+				...assets.preloads.map(href =>
+					`<link rel="preload" href="${href}" as="font" type="${fontType(href)}" crossorigin>`
+				),
+			],
+			body: assets.scripts.map(src => `<script type="module" src="${src}"></script>`)
+		}
+	}
+
+	const htmlTransform: UserHTMLTransform = async (html, options) => {
+		const { head, body } = tags(options)
+		if (head.length) html = addToHead(html, head)
+		if (body.length) html = addToBody(html, body)
+		return html
+	}
+
+	const htmlStreamTransform: UserHTMLStreamTransform = (stream, options) => {
+		const { head, body } = tags(options)
+		return addToStream(stream, head, body)
+	}
+
+	/**
+	 * `Link` header values for the route's stylesheets, scripts and their chunks, and fonts
+	 */
+	function preloadLinks(options: RouteAssetOptions): string[] {
+		const assets = routeAssets(options)
+		return [
+			...assets.stylesheets.map(href => `<${href}>; rel=preload; as=style`),
+			...[...assets.scripts, ...assets.modulepreloads].map(href => `<${href}>; rel=modulepreload`),
+			...assets.preloads.map(href => `<${href}>; rel=preload; as=font; type=${fontType(href)}; crossorigin`),
+		]
+	}
+
+	return { htmlTransform, htmlStreamTransform, preloadLinks }
+}
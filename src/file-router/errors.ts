@@ -0,0 +1,72 @@
+import { STATUS_CODES } from 'node:http'
+
+// brand to identify http errors across bundles, where `instanceof` doesn't work
+const httpErrorBrand = Symbol.for('ssr-tools:http-error')
+
+/**
+ * Error that sets the response status and renders the matching error page
+ * ```ts
+ * if (!user) throw new HttpError(403)
+ * ```
+ */
+export class HttpError extends Error {
+	status: number
+	readonly [httpErrorBrand] = true
+
+	constructor(status: number, message?: string) {
+		super(message || STATUS_CODES[status] || `HTTP error ${status}`)
+		this.name = 'HttpError'
+		this.status = status
+	}
+}
+
+export function isHttpError(error: unknown): error is HttpError {
+	return error instanceof Error && httpErrorBrand in error
+}
+
+const redirectBrand = Symbol.for('ssr-tools:redirect')
+
+const redirectStatuses = Object.freeze([301, 302, 303, 307, 308])
+
+/**
+ * Redirects to `location`, created with `redirect()`
+ */
+export class Redirect extends Error {
+	status: number
+	location: string
+	readonly [redirectBrand] = true
+
+	constructor(location: string, status: number = 307) {
+		if (!redirectStatuses.includes(status)) {
+			throw new RangeError(`Invalid redirect status ${status}, expected one of ${redirectStatuses.join(', ')}`)
+		}
+		super(`Redirect to ${location}`)
+		this.name = 'Redirect'
+		this.status = status
+		this.location = location
+	}
+}
+
+export function isRedirect(error: unknown): error is Redirect {
+	return error instanceof Error && redirectBrand in error
+}
+
+/**
+ * Redirects the request when thrown or returned from a route
+ * ```ts
+ * if (!session) throw redirect('/login')
+ * ```
+ */
+export function redirect(location: string, status?: number): Redirect {
+	return new Redirect(location, status)
+}
+
+/**
+ * Renders the nearest `_404` page when thrown or returned from a route
+ * ```ts
+ * if (!post) return notFound()
+ * ```
+ */
+export function notFound(message?: string): HttpError {
+	return new HttpError(404, message)
+}
@@ -0,0 +1,247 @@
+import os from 'node:os'
+import path from 'node:path'
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises'
+import { buildRoutes } from './routes.ts'
+import { createServerHandler, createFetchHandler } from './fetchHandler.ts'
+import { createRouteManifest, routeManifestFileName, type RouteManifest } from './routeManifest.ts'
+
+const dir = '/pages'
+
+type ServerHandlerArgs = Parameters<typeof createServerHandler>[0]
+
+// server handler for routes with modules in memory, keyed by file name
+async function serverHandler(modules: Record<string, unknown>, args: Partial<ServerHandlerArgs> = {}) {
+	return createServerHandler({
+		routes: buildRoutes({ dir, files: Object.keys(modules).map(file => dir + file) }),
+		prerendered: { routes: [], pages: {} },
+		staticDir: '/static',
+		stylesheets: [],
+		assets: {},
+		stream: false,
+		prerender: false,
+		preloadHeaders: false,
+		importer: async path => modules[path.replace(dir, '')],
+		...args
+	})
+}
+
+const request = (url: string, init?: RequestInit) => new Request('http://localhost' + url, init)
+
+describe('passing through', () => {
+
+	const modules = {
+		'/[slug].ts': { default: ({ params }: { params: { slug: string } }) => params.slug === 'cms-page' ? 'cms' : null },
+		'/[...all].ts': { default: ({ params }: { params: { all: string[] } }) => params.all[0] === 'fallback' ? 'fallback' : null },
+	}
+
+	test('tries the next matching route when a route returns null', async () => {
+		const handler = await serverHandler(modules)
+		expect(await (await handler(request('/cms-page')))?.text()).toBe('cms')
+		expect(await (await handler(request('/fallback')))?.text()).toBe('fallback')
+	})
+
+	test('renders the not found page when every route passes through', async () => {
+		const handler = await serverHandler({ ...modules, '/_404.ts': { default: () => 'not found' } })
+		const response = await handler(request('/other'))
+		expect(response?.status).toBe(404)
+		expect(await response?.text()).toBe('not found')
+	})
+
+	test('resolves to null without a not found page', async () => {
+		const handler = await serverHandler(modules)
+		expect(await handler(request('/other'))).toBeNull()
+		expect(await handler(request('/a/b'))).toBeNull()
+	})
+})
+
+describe('prerendered routes', () => {
+
+	let staticDir: string
+
+	beforeAll(async () => {
+		staticDir = await mkdtemp(path.join(os.tmpdir(), 'static-'))
+		await writeFile(path.join(staticDir, 'hello.html'), 'prerendered hello')
+	})
+
+	afterAll(async () => {
+		await rm(staticDir, { recursive: true, force: true })
+	})
+
+	const modules = {
+		'/[slug].ts': { 
+			handlers: { POST: () => ({ posted: true }) }, 
+			default: () => 'rendered' 
+		},
+		'/_404.ts': { default: () => 'not found' },
+	}
+
+	const prerendered = {
+		routes: ['/[slug].ts'],
+		pages: { '/hello': { route: '/[slug].ts', file: 'hello.html', type: 'text/html', etag: '"abc"' } }
+	}
+
+	test('are served from the static output directory', async () => {
+		const handler = await serverHandler(modules, { prerendered, staticDir })
+		const response = await handler(request('/hello'))
+		expect(await response?.text()).toBe('prerendered hello')
+		expect(response?.headers.get('ETag')).toBe('"abc"')
+	})
+
+	test('are unmatched for pages that weren\'t built', async () => {
+		const handler = await serverHandler(modules, { prerendered, staticDir })
+		const response = await handler(request('/other'))
+		expect(response?.status).toBe(404)
+		expect(await response?.text()).toBe('not found')
+	})
+
+	test('render other methods on demand', async () => {
+		const handler = await serverHandler(modules, { prerendered, staticDir })
+		const response = await handler(request('/hello', { method: 'POST' }))
+		expect(await response?.json()).toEqual({ posted: true })
+	})
+})
+
+describe('createFetchHandler', () => {
+
+	let dir: string
+
+	// writes built route modules and their route manifest, like the vite plugin's build
+	async function writeBuild(modules: Record<string, string>, options: Partial<Omit<RouteManifest, 'routes'>> = {}) {
+		dir = await mkdtemp(path.join(os.tmpdir(), 'fetch-handler-'))
+		const built = new Map<string, string>()
+		for (const [name, source] of Object.entries(modules)) {
+			const file = path.join(dir, 'server', name.replace(/\.ts$/, '.mjs'))
+			await mkdir(path.dirname(file), { recursive: true })
+			await writeFile(file, source)
+			built.set('/src/pages' + name, file)
+		}
+		const routes = buildRoutes({ dir: '/src/pages', files: [...built.keys()], setImport: file => built.get(file) })
+		const manifest = createRouteManifest({
+			routes,
+			dir: path.join(dir, 'server'),
+			routeAssets: () => ({ stylesheets: [], scripts: [], modulepreloads: [], preloads: [] }),
+			staticDir: '../html',
+			base: '/',
+			assetsDir: 'assets',
+			assetsUrl: '/assets',
+			publicDir: null,
+			stylesheets: [],
+			stream: false,
+			prerender: false,
+			removeTrailingSlash: true,
+			preloadHeaders: false,
+			...options
+		})
+		const file = path.join(dir, 'server', routeManifestFileName)
+		await writeFile(file, JSON.stringify(manifest))
+		return file
+	}
+
+	afterEach(async () => {
+		await rm(dir, { recursive: true, force: true })
+	})
+
+	const modules = {
+		'/index.ts': `export default () => '<h1>home</h1>'`,
+		'/blog/[slug].ts': `export default ({ params }) => '<h1>' + params.slug + '</h1>'`,
+	}
+
+	test('renders routes from the route manifest', async () => {
+		const handler = createFetchHandler({ manifest: await writeBuild(modules) })
+		expect(await (await handler(request('/'))).text()).toBe('<h1>home</h1>')
+		expect(await (await handler(request('/blog/hello%20world'))).text()).toBe('<h1>hello world</h1>')
+	})
+
+	test('responds with an empty 404 without a not found page', async () => {
+		const handler = createFetchHandler({ manifest: await writeBuild(modules) })
+		const response = await handler(request('/missing'))
+		expect(response.status).toBe(404)
+		expect(await response.text()).toBe('')
+	})
+
+	test('responds with a 400 to malformed urls', async () => {
+		const handler = createFetchHandler({ manifest: await writeBuild(modules) })
+		expect((await handler(request('/blog/%E0%A4%A'))).status).toBe(400)
+	})
+
+	test('removes trailing slashes', async () => {
+		const handler = createFetchHandler({ manifest: await writeBuild(modules) })
+		const response = await handler(request('/blog/hello/?page=2'))
+		expect(response.status).toBe(301)
+		expect(response.headers.get('Location')).toBe('/blog/hello?page=2')
+	})
+
+	test('throws on each request when the manifest can\'t be loaded', async () => {
+		dir = await mkdtemp(path.join(os.tmpdir(), 'fetch-handler-'))
+		const error = console.error
+		console.error = () => {}
+		try {
+			const handler = createFetchHandler({ manifest: path.join(dir, 'missing.json') })
+			await expect(handler(request('/'))).rejects.toThrow('ENOENT')
+			await expect(handler(request('/'))).rejects.toThrow('ENOENT')
+		} finally {
+			console.error = error
+		}
+	})
+})
+
+describe('preload headers', () => {
+
+	const modules = {
+		'/index.ts': { default: () => '<html><head></head><body></body></html>' },
+		'/data.ts': { default: () => ({ data: true }) },
+	}
+	const assets = {
+		'/index.ts': { stylesheets: ['/assets/home.css'], scripts: ['/assets/home.js'], modulepreloads: [], preloads: [] },
+		'/data.ts': { stylesheets: ['/assets/home.css'], scripts: [], modulepreloads: [], preloads: [] },
+	}
+
+	test('are sent as Link headers for html pages', async () => {
+		const handler = await serverHandler(modules, { assets, preloadHeaders: 'link' })
+		const response = await handler(request('/'))
+		expect(response?.headers.get('Link')).toBe('</assets/home.css>; rel=preload; as=style, </assets/home.js>; rel=modulepreload')
+		expect((await handler(request('/data')))?.headers.has('Link')).toBe(false)
+	})
+
+	test('aren\'t sent by default', async () => {
+		const handler = await serverHandler(modules, { assets })
+		expect((await handler(request('/')))?.headers.has('Link')).toBe(false)
+	})
+
+	test('are sent as early hints before rendering', async () => {
+		const handler = await serverHandler(modules, { assets, preloadHeaders: 'early-hints' })
+		const hints: string[][] = []
+		const response = await handler(request('/'), { earlyHints: links => hints.push(links) })
+		expect(hints).toEqual([['</assets/home.css>; rel=preload; as=style', '</assets/home.js>; rel=modulepreload']])
+		expect(response?.headers.has('Link')).toBe(true)
+	})
+})
+
+describe('base path', () => {
+
+	const modules = {
+		'/index.ts': { default: () => 'home' },
+		'/blog/[slug].ts': { default: ({ params }: { params: { slug: string } }) => params.slug },
+		'/blog/_404.ts': { default: () => 'no post' },
+	}
+
+	test('routes are matched relative to the base', async () => {
+		const handler = await serverHandler(modules, { base: '/app/' })
+		expect(await (await handler(request('/app/')))?.text()).toBe('home')
+		expect(await (await handler(request('/app')))?.text()).toBe('home')
+		expect(await (await handler(request('/app/blog/hello')))?.text()).toBe('hello')
+	})
+
+	test('not found pages are found relative to the base', async () => {
+		const handler = await serverHandler(modules, { base: '/app/' })
+		const response = await handler(request('/app/blog/a/b'))
+		expect(response?.status).toBe(404)
+		expect(await response?.text()).toBe('no post')
+	})
+
+	test('urls outside the base are unmatched', async () => {
+		const handler = await serverHandler(modules, { base: '/app/' })
+		expect(await handler(request('/blog/hello'))).toBeNull()
+		expect(await handler(request('/application'))).toBeNull()
+	})
+})
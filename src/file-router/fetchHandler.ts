@@ -0,0 +1,236 @@
+import path from 'node:path'
+import {
+	notFoundRequestHandler,
+	prerenderedRequestHandler,
+	prodRequestHandler,
+	staticPathRequestHandler
+} from './processRoutes.ts'
+import { createRevalidator } from './revalidate.ts'
+import { loadRouteManifest, routeManifestFileName } from './routeManifest.ts'
+import { assetTransforms } from './assets.ts'
+import { isHtml, stripBase, trailingSlashLocation } from './request.ts'
+import type { Routes, MatchedRoute } from './routes.ts'
+import type { Importer } from './fileRoute.ts'
+import type { PrerenderManifest } from './processRoutes.ts'
+import type { ParamMatchers } from './matchers.ts'
+import type { Renderer } from './renderers.ts'
+import type { RouteAssets, PreloadHeaders } from './assets.ts'
+
+type ServerHandlerArgs = {
+	routes: Routes
+	prerendered: PrerenderManifest
+	// the static output directory, with prerendered pages
+	staticDir: string
+	// asset urls for every page
+	stylesheets: string[]
+	// assets for each route, by route name
+	assets: Record<string, RouteAssets>
+	stream: boolean
+	prerender: boolean
+	preloadHeaders: PreloadHeaders
+	// url path the site is served from, e.g. `/app/`
+	base?: string
+	renderers?: readonly Renderer[]
+	importer?: Importer
+}
+
+type ServerHandlerOptions = {
+	// sends `103 Early Hints` with the matched route's preload links
+	earlyHints?: (links: string[]) => void
+}
+
+// resolves to null for unmatched urls without a `_404` or `_error` route
+export type ServerHandler = (request: Request, options?: ServerHandlerOptions) => Promise<Response | null>
+
+export type FetchHandler = (request: Request) => Promise<Response>
+
+/**
+ * Handles requests for built routes: prerendered pages are served from the static
+ * output directory, everything else is rendered on demand.
+ * Routes are compiled once, so this throws if any routes are invalid
+ */
+export async function createServerHandler(args: ServerHandlerArgs): Promise<ServerHandler> {
+
+	const {
+		routes,
+		prerendered,
+		staticDir,
+		stream,
+		prerender,
+		preloadHeaders,
+		base = '/',
+		renderers,
+		importer
+	} = args
+
+	const transforms = assetTransforms({
+		stylesheets: args.stylesheets,
+		routes: args.assets
+	})
+	const htmlTransform = transforms.htmlTransform
+	const htmlStreamTransform = stream ? transforms.htmlStreamTransform : undefined
+
+	// adds the rendered route's preload links to html responses
+	function withPreloadHeaders(response: Response, options: Parameters<typeof transforms.preloadLinks>[0]) {
+		if (!preloadHeaders || !isHtml(response)) return response
+		const links = transforms.preloadLinks(options)
+		if (!links.length) return response
+		const headers = new Headers(response.headers)
+		headers.append('Link', links.join(', '))
+		return new Response(response.body, {
+			status: response.status,
+			statusText: response.statusText,
+			headers
+		})
+	}
+
+	// compile routes once, so invalid route modules throw at startup
+	const requestHandler = await prodRequestHandler({
+		routes: routes.routes,
+		importer,
+		renderers,
+		htmlTransform,
+		htmlStreamTransform
+	})
+
+	const prerenderedRoutes = new Set(prerendered.routes)
+
+	// regenerates prerendered pages, with the same props as the static build
+	const revalidator = createRevalidator({
+		manifest: prerendered,
+		dir: staticDir,
+		render: async url => {
+			const route = routes.routes.find(route => route.name === prerendered.pages[url]?.route)
+			if (!route) return null
+			const [response, errors] = await staticPathRequestHandler({
+				route,
+				path: url,
+				importer,
+				htmlTransform,
+				prerender,
+				renderers
+			})
+			if (errors.length) {
+				console.error(errors)
+				return null
+			}
+			return response
+		}
+	})
+
+	return async (request: Request, options: ServerHandlerOptions = {}) => {
+		const url = new URL(request.url)
+		const method = request.method.toUpperCase()
+
+		// routes are matched relative to the base, urls outside of it are unmatched
+		const routePath = stripBase(url.pathname, base)
+		let pathname: string
+		let matched: MatchedRoute[]
+		try {
+			pathname = decodeURIComponent(routePath ?? url.pathname)
+			matched = routePath === undefined ? [] : routes.matchRoutes(routePath)
+		} catch (e) {
+			// urls with malformed escapes (e.g. `%E0%A4%A`) can't be decoded
+			if (e instanceof URIError) return new Response(null, { status: 400 })
+			throw e
+		}
+
+		// hints are sent before rendering, so they use the first matching route
+		if (preloadHeaders === 'early-hints' && options.earlyHints && method === 'GET' && matched.length) {
+			const links = transforms.preloadLinks({ route: matched[0].route })
+			if (links.length) options.earlyHints(links)
+		}
+
+		// try each matching route in order, until one doesn't pass through
+		for (const { route, params } of matched) {
+			// GET requests to prerendered routes are only served from static files
+			if (prerenderedRoutes.has(route.name) && (method === 'GET' || method === 'HEAD')) {
+				const response = await prerenderedRequestHandler({
+					manifest: prerendered,
+					request,
+					path: pathname,
+					dir: staticDir
+				})
+				if (!response) continue
+				// regenerate stale pages in the background, after sending the cached page
+				revalidator.revalidateIfStale(pathname).catch(e => console.error(e))
+				return withPreloadHeaders(response, { route })
+			}
+
+			const [response, errors] = await requestHandler({ request, route, params })
+			// the response is the rendered error page when there are errors
+			if (errors.length) console.error(errors)
+			if (response) return withPreloadHeaders(response, { route })
+		}
+
+		// render unmatched urls with the `_404` or `_error` routes if they exist
+		const errorRoute = routes.findNotFoundRoute(routePath ?? '/')
+		if (!errorRoute) return null
+		const [response, errors] = await notFoundRequestHandler({
+			errorRoute,
+			request,
+			importer,
+			renderers,
+			htmlTransform,
+			htmlStreamTransform
+		})
+		if (errors.length) console.error(errors)
+		return withPreloadHeaders(response, { errorRoute })
+	}
+}
+
+
+export type FetchHandlerOptions = {
+	// path to the route manifest, e.g. `dist/server/routes.json`
+	manifest?: string
+	// the same param matchers and renderers as the `fileRouter()` plugin options
+	matchers?: ParamMatchers
+	renderers?: readonly Renderer[]
+}
+
+/**
+ * Web-standard request handler for built routes, for any `fetch`-style server:
+ * ```ts
+ * const handler = createFetchHandler()
+ * Bun.serve({ fetch: handler })
+ * ```
+ * Routes are loaded from the build-time route manifest straight away,
+ * and load errors are logged, and thrown on each request
+ */
+export function createFetchHandler(options: FetchHandlerOptions = {}): FetchHandler {
+
+	const {
+		manifest: manifestPath = path.join('dist', 'server', routeManifestFileName),
+		matchers,
+		renderers
+	} = options
+
+	const ready = (async () => {
+		const { manifest, routes, prerendered, assets, staticDir } = await loadRouteManifest(manifestPath, matchers)
+		const handler = await createServerHandler({
+			routes,
+			prerendered,
+			staticDir,
+			assets,
+			stylesheets: manifest.stylesheets,
+			stream: manifest.stream,
+			prerender: manifest.prerender,
+			preloadHeaders: manifest.preloadHeaders,
+			base: manifest.base,
+			renderers
+		})
+		return { handler, manifest }
+	})()
+
+	ready.catch(e => console.error(e))
+
+	return async (request: Request) => {
+		const { handler, manifest } = await ready
+		if (manifest.removeTrailingSlash) {
+			const location = trailingSlashLocation(new URL(request.url), manifest.base)
+			if (location) return new Response(null, { status: 301, headers: { 'Location': location } })
+		}
+		return await handler(request) ?? new Response(null, { status: 404 })
+	}
+}
+
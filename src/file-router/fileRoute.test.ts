@@ -0,0 +1,277 @@
+import { h } from 'preact'
+import { buildRoutes } from './routes.ts'
+import { createFileRoute, getPageProps, responseHandler, env } from './fileRoute.ts'
+import { preactRenderer, type Renderer } from './renderers.ts'
+import { notFound } from './errors.ts'
+
+const dir = '/pages'
+
+// compiles a route from modules in memory, keyed by file name
+async function compile(file: string, modules: Record<string, unknown>, renderers?: Renderer[]) {
+	const routes = buildRoutes({ dir, files: Object.keys(modules).map(file => dir + file) })
+	const route = routes.routes.find(route => route.name === file)
+	if (!route) throw new Error(`${file} isn't a route`)
+	return createFileRoute(route, async path => modules[path.replace(dir, '')], env.DEV, { renderers })
+}
+
+function context(url: string, init: RequestInit = {}) {
+	return getPageProps({ req: new Request('http://localhost' + url, init), routeParams: {}, props: {} })
+}
+
+const htmlTransform = async (html: string) => html
+
+const passThrough = (stream: ReadableStream<Uint8Array>) => stream
+
+function Broken(): never {
+	throw new Error('broken component')
+}
+
+describe('streamed responses', () => {
+
+	test('render preact elements to a stream', async () => {
+		const response = await responseHandler(h('p', null, 'hello'), undefined, passThrough)
+		expect(response.headers.get('Content-Type')).toBe('text/html')
+		expect(await response.text()).toBe('<p>hello</p>')
+	})
+
+	test('errors rendering the page are thrown before responding', async () => {
+		await expect(responseHandler(h(Broken, null), undefined, passThrough))
+			.rejects.toThrow('broken component')
+		// `allReady` is also rejected, which would end the process if unhandled
+		await new Promise(resolve => setTimeout(resolve, 10))
+	})
+
+	test('errors after the first chunk end the stream', async () => {
+		const renderer: Renderer = {
+			name: 'test',
+			test: () => true,
+			render: () => '',
+			renderToStream: () => new ReadableStream({
+				start(controller) {
+					controller.enqueue(new TextEncoder().encode('<p>'))
+				},
+				pull(controller) {
+					controller.error(new Error('late error'))
+				}
+			})
+		}
+		const response = await responseHandler({}, undefined, passThrough, [renderer])
+		await expect(response.text()).rejects.toThrow('late error')
+	})
+
+	test('the stream renderer is only used with a stream transform', async () => {
+		const response = await responseHandler(h('p', null, 'hello'), async html => html + '!', undefined, [preactRenderer])
+		expect(await response.text()).toBe('<p>hello</p>!')
+	})
+})
+
+describe('html responses', () => {
+
+	const html = (body: string) => new Response(body, { 
+		headers: { 'Content-Type': 'text/html', 'Content-Length': String(body.length) } 
+	})
+
+	test('are transformed', async () => {
+		const response = await responseHandler(html('<p>hello</p>'), async html => html + '!')
+		expect(response.headers.has('Content-Length')).toBe(false)
+		expect(await response.text()).toBe('<p>hello</p>!')
+	})
+
+	test('can be transformed to an empty body', async () => {
+		const response = await responseHandler(html('<p>hello</p>'), async () => '')
+		expect(response.headers.has('Content-Length')).toBe(false)
+		expect(await response.text()).toBe('')
+	})
+
+	test('other responses are passed through', async () => {
+		const response = await responseHandler(Response.json({ a: 1 }), async () => '')
+		expect(await response.json()).toEqual({ a: 1 })
+	})
+})
+
+describe('request methods', () => {
+
+	const contact = {
+		handlers: {
+			POST: async () => new Response(null, { status: 303, headers: { Location: '/thanks' } }),
+			DELETE: () => ({ deleted: true }),
+		},
+		default: () => '<form method="post"></form>',
+	}
+
+	test('the default export renders GET requests', async () => {
+		const route = await compile('/contact.ts', { '/contact.ts': contact })
+		const response = await route.handler(context('/contact'), htmlTransform)
+		expect(await response?.text()).toBe('<form method="post"></form>')
+	})
+
+	test('handlers render other methods', async () => {
+		const route = await compile('/contact.ts', { '/contact.ts': contact })
+		const posted = await route.handler(context('/contact', { method: 'POST' }), htmlTransform)
+		expect(posted?.status).toBe(303)
+		const deleted = await route.handler(context('/contact', { method: 'DELETE' }), htmlTransform)
+		expect(await deleted?.json()).toEqual({ deleted: true })
+	})
+
+	test('handlers.GET takes precedence over the default export', async () => {
+		const route = await compile('/index.ts', { 
+			'/index.ts': { handlers: { GET: () => 'handler' }, default: () => 'default' } 
+		})
+		const response = await route.handler(context('/'), htmlTransform)
+		expect(await response?.text()).toBe('handler')
+	})
+
+	test('HEAD requests send the GET headers without a body', async () => {
+		const route = await compile('/contact.ts', { '/contact.ts': contact })
+		const response = await route.handler(context('/contact', { method: 'HEAD' }), htmlTransform)
+		expect(response?.status).toBe(200)
+		expect(response?.headers.get('Content-Type')).toBe('text/html')
+		expect(response?.body).toBeNull()
+	})
+
+	test('OPTIONS requests list the allowed methods', async () => {
+		const route = await compile('/contact.ts', { '/contact.ts': contact })
+		const response = await route.handler(context('/contact', { method: 'OPTIONS' }), htmlTransform)
+		expect(response?.status).toBe(204)
+		expect(response?.headers.get('Allow')).toBe('GET, HEAD, POST, DELETE, OPTIONS')
+	})
+
+	test('other methods are not allowed', async () => {
+		const route = await compile('/contact.ts', { '/contact.ts': contact })
+		const response = await route.handler(context('/contact', { method: 'PUT' }), htmlTransform)
+		expect(response?.status).toBe(405)
+		expect(response?.headers.get('Allow')).toBe('GET, HEAD, POST, DELETE, OPTIONS')
+	})
+
+	test('routes without a GET handler don\'t allow GET requests', async () => {
+		const route = await compile('/api.ts', { '/api.ts': { handlers: { POST: () => ({ ok: true }) } } })
+		const response = await route.handler(context('/api'), htmlTransform)
+		expect(response?.status).toBe(405)
+		expect(response?.headers.get('Allow')).toBe('POST, OPTIONS')
+	})
+
+	test('unsupported handlers are invalid', async () => {
+		await expect(compile('/api.ts', { '/api.ts': { handlers: { TRACE: () => '' } } }))
+			.rejects.toThrow(`/api.ts — Unsupported method 'handlers.TRACE'`)
+		await expect(compile('/api.ts', { '/api.ts': { handlers: { POST: 'nope' } } }))
+			.rejects.toThrow(`/api.ts — 'handlers.POST' must be a function`)
+	})
+})
+
+describe('layouts', () => {
+
+	const layouts = {
+		'/_layout.ts': { default: ({ children }: { children: string }) => `<body>${children}</body>` },
+		'/blog/_layout.ts': { default: ({ children, url }: { children: string, url: URL }) => `<main data-path="${url.pathname}">${children}</main>` },
+	}
+
+	test('wrap routes, outermost first', async () => {
+		const route = await compile('/blog/post.ts', { ...layouts, '/blog/post.ts': { default: () => '<h1>post</h1>' } })
+		const response = await route.handler(context('/blog/post'), htmlTransform)
+		expect(await response?.text()).toBe('<body><main data-path="/blog/post"><h1>post</h1></main></body>')
+	})
+
+	test('only apply to routes below them', async () => {
+		const route = await compile('/about.ts', { ...layouts, '/about.ts': { default: () => '<h1>about</h1>' } })
+		const response = await route.handler(context('/about'), htmlTransform)
+		expect(await response?.text()).toBe('<body><h1>about</h1></body>')
+	})
+
+	test('apply to routes in groups', async () => {
+		const route = await compile('/(docs)/intro.ts', {
+			'/(docs)/_layout.ts': { default: ({ children }: { children: string }) => `<article>${children}</article>` },
+			'/(docs)/intro.ts': { default: () => 'intro' },
+		})
+		const response = await route.handler(context('/intro'), htmlTransform)
+		expect(await response?.text()).toBe('<article>intro</article>')
+	})
+
+	test('don\'t wrap responses and data', async () => {
+		const route = await compile('/blog/data.ts', { ...layouts, '/blog/data.ts': { default: () => ({ posts: [] }) } })
+		const response = await route.handler(context('/blog/data'), htmlTransform)
+		expect(await response?.json()).toEqual({ posts: [] })
+	})
+
+	test('must export a default function', async () => {
+		await expect(compile('/about.ts', { '/_layout.ts': { default: 'nope' }, '/about.ts': { default: () => '' } }))
+			.rejects.toThrow(`/_layout.ts — Layouts must export a default function`)
+	})
+})
+
+describe('load', () => {
+
+	const page = { 
+		load: async ({ url }: { url: URL }) => ({ path: url.pathname }),
+		default: ({ props }: { props: Record<string, string> }) => JSON.stringify(props),
+		handlers: { POST: ({ props }: { props: Record<string, string> }) => props },
+	}
+
+	test('is merged into props before rendering', async () => {
+		const route = await compile('/about.ts', { '/about.ts': page })
+		const props = { title: 'About' }
+		const response = await route.handler({ ...context('/about'), props }, htmlTransform)
+		expect(await response?.text()).toBe('{"title":"About","path":"/about"}')
+	})
+
+	test('only runs for GET requests', async () => {
+		const route = await compile('/about.ts', { '/about.ts': page })
+		const response = await route.handler(context('/about', { method: 'POST' }), htmlTransform)
+		expect(await response?.json()).toEqual({})
+	})
+
+	test('can return notFound()', async () => {
+		const route = await compile('/about.ts', { '/about.ts': { ...page, load: () => notFound() } })
+		await expect(route.handler(context('/about'), htmlTransform)).rejects.toMatchObject({ status: 404 })
+	})
+
+	test('must return an object', async () => {
+		const route = await compile('/about.ts', { '/about.ts': { ...page, load: () => 'props' } })
+		await expect(route.handler(context('/about'), htmlTransform))
+			.rejects.toThrow(`/about.ts — 'load' must return an object, returned 'string'`)
+		await expect(compile('/about.ts', { '/about.ts': { ...page, load: {} } }))
+			.rejects.toThrow(`/about.ts — 'load' must be a function`)
+	})
+})
+
+describe('renderers', () => {
+
+	type Element = { tag: string, children: unknown }
+
+	// renders `{ tag, children }` objects
+	const elementRenderer: Renderer = {
+		name: 'element',
+		test: input => typeof input === 'object' && input !== null && 'tag' in input,
+		render: input => {
+			const { tag, children } = input as Element
+			return `<${tag}>${children}</${tag}>`
+		},
+	}
+
+	test('render framework output before it\'s sent as JSON', async () => {
+		const route = await compile('/index.ts', { '/index.ts': { default: () => ({ tag: 'h1', children: 'home' }) } }, [elementRenderer])
+		const response = await route.handler(context('/'), htmlTransform)
+		expect(response?.headers.get('Content-Type')).toBe('text/html')
+		expect(await response?.text()).toBe('<h1>home</h1>')
+	})
+
+	test('render layouts wrapping framework output', async () => {
+		const route = await compile('/index.ts', { 
+			'/_layout.ts': { default: ({ children }: { children: unknown }) => ({ tag: 'main', children: elementRenderer.render(children) }) },
+			'/index.ts': { default: () => ({ tag: 'h1', children: 'home' }) },
+		}, [elementRenderer])
+		const response = await route.handler(context('/'), htmlTransform)
+		expect(await response?.text()).toBe('<main><h1>home</h1></main>')
+	})
+
+	test('other objects are sent as JSON', async () => {
+		const route = await compile('/index.ts', { '/index.ts': { default: () => ({ title: 'home' }) } }, [elementRenderer])
+		const response = await route.handler(context('/'), htmlTransform)
+		expect(await response?.json()).toEqual({ title: 'home' })
+	})
+
+	test('preact elements are rendered by default', async () => {
+		const route = await compile('/index.ts', { '/index.ts': { default: () => h('h1', null, 'home') } })
+		const response = await route.handler(context('/'), htmlTransform)
+		expect(await response?.text()).toBe('<h1>home</h1>')
+	})
+})
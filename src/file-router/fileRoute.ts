@@ -1,7 +1,9 @@
 import { isBasic, isDynamic } from './routes.ts'
-import { isRecord, isRecordWithKeys, isIterable, isObject } from '../utility/types.ts'
-import type { Route, RouteRequestData, ParamData } from './routes.ts'
-import { importUserModule } from '../utility/userEnv.ts'
+import { isRecord, isRecordWithKeys, isIterable, isObject, isPlainObject } from '../utility/types.ts'
+import type { Route, ErrorRoute, LayoutRoute, RouteRequestData, ParamData } from './routes.ts'
+import { defaultRenderers, findRenderer, type Renderer } from './renderers.ts'
+import { isHtml } from './request.ts'
+import { isHttpError, isRedirect, type Redirect } from './errors.ts'
 
 type Env = typeof env[keyof typeof env]
 
@@ -27,14 +29,33 @@ function isStaticEnv(current: Env) {
 type PageProps = {
 	request: Request
 	url: URL
-	params: Readonly<Record<string, string | string[]>>
+	params: Readonly<ParamData>
 	props: unknown
 }
 
 type ErrorPageProps = PageProps & {
 	error: Error
+	// response status, e.g. 500, or the status of a thrown `HttpError`
+	status: number
 }
 
+type LayoutProps = PageProps & {
+	children: unknown
+}
+
+type Layout = (context: LayoutProps) => Promise<unknown>
+
+// runs before rendering, the result is merged into `props`
+type Load = (context: PageProps) => Promise<unknown>
+
+// methods that can be exported in the `handlers` object
+// (HEAD and OPTIONS are derived from GET and the exported handlers)
+const handlerMethods = Object.freeze(['GET', 'POST', 'PUT', 'PATCH', 'DELETE'] as const)
+
+type HandlerMethod = typeof handlerMethods[number]
+type Handler = (context: PageProps) => Promise<unknown>
+type Handlers = Partial<Record<HandlerMethod, Handler>>
+
 type GetPagePropsArgs = {
 	req: Request,
 	routeParams: ParamData
@@ -55,30 +76,75 @@ export type Importer = (path: string) => Promise<unknown>
 
 export type HTMLTransform = (html: string) => Promise<string>
 
-export type UserHTMLTransform = (
-	html: string, 
-	options: { 
-		request: Request, 
-		isErrorRequest: boolean 
-	}
-) => Promise<string>
+// transforms streamed html, when set, responses are streamed instead of buffered
+export type HTMLStreamTransform = (stream: ReadableStream<Uint8Array>) => ReadableStream<Uint8Array>
+
+export type HTMLTransformOptions = { 
+	request: Request, 
+	isErrorRequest: boolean 
+	// the matched route, undefined for unmatched urls
+	route?: Route
+	// the `_error` or `_404` route being rendered
+	errorRoute?: ErrorRoute
+}
+
+export type UserHTMLTransform = (html: string, options: HTMLTransformOptions) => Promise<string>
+
+export type UserHTMLStreamTransform = (
+	stream: ReadableStream<Uint8Array>, 
+	options: HTMLTransformOptions
+) => ReadableStream<Uint8Array>
 
 export type FileRoute = {
-	handler: (context: PageProps, htmlTransform: UserHTMLTransform) => Promise<Response>
-	errorHandler: (context: ErrorPageProps, htmlTransform: UserHTMLTransform) => Promise<Response>
+	methods: string[]
+	// resolves to null when the route passes through to the next matching route
+	handler: (
+		context: PageProps, 
+		htmlTransform: UserHTMLTransform, 
+		htmlStreamTransform?: UserHTMLStreamTransform
+	) => Promise<Response | null>
+	errorHandler: (
+		context: ErrorPageProps, 
+		htmlTransform: UserHTMLTransform, 
+		htmlStreamTransform?: UserHTMLStreamTransform
+	) => Promise<Response>
 	buildFrom: () => Promise<Iterable<unknown>>
 	buildUrl: (props: unknown) => Promise<RouteRequestData>
+	// whether the route is rendered to static files at build time
+	prerender: boolean
+	// seconds before a prerendered page is regenerated
+	revalidate: number | undefined
+}
+
+type FileRouteOptions = {
+	// default for routes that don't export `prerender`
+	prerender?: boolean
+	// renders framework output, e.g. Preact elements
+	renderers?: readonly Renderer[]
+}
+
+function htmlTransformOptions(context: PageProps, route?: Route, errorRoute?: ErrorRoute): HTMLTransformOptions {
+	return {
+		request: context.request,
+		isErrorRequest: !!errorRoute,
+		route,
+		errorRoute,
+	}
 }
 
 function createHtmlTransformer(
 		userHtmlTransform: UserHTMLTransform, 
-		context: PageProps, 
-		isErrorRequest: boolean
+		options: HTMLTransformOptions
 	): HTMLTransform {
-		return html => userHtmlTransform(html, { 
-			request: context.request,
-			isErrorRequest
-		})
+		return html => userHtmlTransform(html, options)
+	}
+
+function createHtmlStreamTransformer(
+		userHtmlStreamTransform: UserHTMLStreamTransform | undefined, 
+		options: HTMLTransformOptions
+	): HTMLStreamTransform | undefined {
+		if (!userHtmlStreamTransform) return
+		return stream => userHtmlStreamTransform(stream, options)
 	}
 
 /**
@@ -94,12 +160,29 @@ function createHtmlTransformer(
 		url: props => `/${props.slug}`
 	}
 
-	// TODO: add handlers for GET/POST/HEAD/etc
+	// runs before rendering (in dev, prod and static builds), 
+	// the returned object is merged into `props`
+	export async function load({ params, props }) {
+		return { comments: await getComments(params.slug) }
+	}
+
+	// handlers for other request methods (GET/POST/PUT/PATCH/DELETE)
+	// `handlers.GET` takes precedence over the default export
 	export const handlers = {
-		GET: ctx => new Response(),
-		POST: ctx => new Response(),
+		POST: async ({ request }) => {
+			const data = await request.formData()
+			return new Response(null, { status: 303, headers: { Location: '/thanks' } })
+		},
 	}
 
+	// set to false to only render on demand (defaults to the `prerender` plugin option)
+	export const prerender = true
+
+	// regenerate prerendered pages in the background, once they're older than 60 seconds
+	export const revalidate = 60
+
+	// renders GET (and HEAD) requests, 
+	// html output is wrapped by any `_layout` files in parent directories
 	export default function page({ req, res, props, params, url, route, ...ctx }) {
 		return `<html>
 			<body>
@@ -110,32 +193,94 @@ function createHtmlTransformer(
 	}
 	``` 
  */
-export async function createFileRoute(route: Route, importer: Importer, env: Env): Promise<FileRoute> {
+export async function createFileRoute(
+	route: Route, 
+	importer: Importer, 
+	env: Env, 
+	options: FileRouteOptions = {}
+): Promise<FileRoute> {
 
 	const importPath = route.module
-	const errorImportPath = route.error?.module
 	
 	const mod = await importer(importPath)
 	const exported = parseModule(route, mod)
-	const build = parseModuleBuild(route, exported, env)
+	const prerender = typeof exported.prerender === 'boolean' ? exported.prerender : options.prerender ?? true
+	const { renderers = defaultRenderers } = options
+	const revalidate = typeof exported.revalidate === 'number' ? exported.revalidate : undefined
+	const build = parseModuleBuild(route, exported, env, prerender)
+	const handlers = parseModuleHandlers(route, exported)
+	const load = parseModuleLoad(route, exported)
+	const methods = allowedMethods(handlers)
+	const layouts = await Promise.all(
+		route.layouts.map(async layout => parseModuleLayout(layout, await importer(layout.module)))
+	)
 
-	async function handler(context: PageProps, htmlTransform: UserHTMLTransform) {
-		const renderHandler = toFnAsync(unknownProp(exported, 'default'))
-		return await responseHandler(
-			await renderHandler(context), 
-			createHtmlTransformer(htmlTransform, context, false)
-		)
+	async function handler(
+		context: PageProps, 
+		htmlTransform: UserHTMLTransform, 
+		htmlStreamTransform?: UserHTMLStreamTransform
+	): Promise<Response | null> {
+		const method = context.request.method.toUpperCase()
+		const allow = { 'Allow': methods.join(', ') }
+
+		if (method === 'OPTIONS') {
+			return new Response(null, { status: 204, headers: allow })
+		}
+
+		// HEAD requests run the GET handler and discard the body
+		const methodHandler = handlers[(method === 'HEAD' ? 'GET' : method) as HandlerMethod]
+		if (!methodHandler) {
+			return new Response(null, { status: 405, headers: allow })
+		}
+
+		let response: Response
+		try {
+			// `load` runs before rendering GET (and HEAD) requests
+			if (load && handlers.GET === methodHandler) {
+				const loaded = await load(context)
+				if (isRedirect(loaded) || isHttpError(loaded)) throw loaded
+				context = withLoadedProps(context, loaded)
+			}
+			const result = await methodHandler(context)
+			// returning null passes through to the next matching route
+			if (result === null) return null
+			const output = await applyLayouts(layouts, context, result, renderers)
+			const options = htmlTransformOptions(context, route)
+			response = await responseHandler(
+				output,
+				createHtmlTransformer(htmlTransform, options),
+				createHtmlStreamTransformer(htmlStreamTransform, options),
+				renderers
+			)
+		} catch(e) {
+			// `redirect()` can be thrown anywhere while rendering
+			if (!isRedirect(e)) throw e
+			response = redirectResponse(e)
+		}
+		if (method !== 'HEAD') return response
+		return new Response(null, {
+			status: response.status,
+			statusText: response.statusText,
+			headers: response.headers,
+		})
 	}
 
-	const errorHandler = async (context: ErrorPageProps, htmlTransform: UserHTMLTransform) => {
-		const res = new Response(null, { status: 500 })
-		if (!errorImportPath) return res
-		const errorExported = await importer(errorImportPath)
-		const errorHandler = toFnAsync(unknownProp(errorExported, 'default'))
-		return await responseHandler(
-			await errorHandler(context), 
-			createHtmlTransformer(htmlTransform, context, true)
-		)
+	const errorHandler = async (
+		context: ErrorPageProps, 
+		htmlTransform: UserHTMLTransform, 
+		htmlStreamTransform?: UserHTMLStreamTransform
+	) => {
+		// not found errors use the nearest `_404` page, if there is one
+		const errorRoute = (context.status === 404 && route.notFound) || route.error
+		return await errorRouteHandler({
+			route,
+			errorRoute,
+			context,
+			importer,
+			htmlTransform,
+			htmlStreamTransform,
+			renderers,
+		})
 	}
 
 	// parse build options for static routes
@@ -143,16 +288,57 @@ export async function createFileRoute(route: Route, importer: Importer, env: Env
 	const buildUrl = async (props: unknown) => parseResultBuildUrl(route, await build.url(props))
 
 	return {
+		methods,
 		handler,
 		errorHandler,
 		buildFrom,
 		buildUrl,
+		prerender,
+		revalidate,
 	}
 }
 
 
+type ErrorRouteHandlerArgs = {
+	// the matched route, undefined for unmatched urls
+	route?: Route
+	errorRoute: ErrorRoute | undefined
+	context: ErrorPageProps
+	importer: Importer
+	htmlTransform: UserHTMLTransform
+	htmlStreamTransform?: UserHTMLStreamTransform
+	renderers?: readonly Renderer[]
+}
+
+/**
+ * Renders an `_error` or `_404` route. The response uses `context.status`, 
+ * unless the error page returns a Response with its own error status
+ */
+export async function errorRouteHandler(args: ErrorRouteHandlerArgs): Promise<Response> {
+	const { route, errorRoute, context, importer, htmlTransform, htmlStreamTransform, renderers } = args
+	const { status } = context
+	if (!errorRoute) return new Response(null, { status })
+
+	const errorExported = await importer(errorRoute.module)
+	const errorHandler = toFnAsync(unknownProp(errorExported, 'default'))
+	const options = htmlTransformOptions(context, route, errorRoute)
+	const response = await responseHandler(
+		await errorHandler(context), 
+		createHtmlTransformer(htmlTransform, options),
+		createHtmlStreamTransformer(htmlStreamTransform, options),
+		renderers
+	)
+	if (!response.ok) return response
+	return copyResponse(response, { status })
+}
+
+
 type ParseModuleResult = {
-	default: unknown
+	default?: unknown
+	handlers?: unknown
+	load?: unknown
+	prerender?: unknown
+	revalidate?: unknown
 }
 
 type ParseModuleBuildResult = {
@@ -174,16 +360,109 @@ function parseModule(route: Route, exported: unknown): ParseModuleResult | never
 	if (!exported || !isObject(exported)) {
 		throw new Error(`Export could not be parsed`)
 	}
-	if (!('default' in exported)) {
+	if (!('default' in exported) && !('handlers' in exported)) {
 		throw new Error(`${route.name} — No default export found, did you export the route function?`)
 	}
 	if ('default' in exported && exported && typeof exported.default !== 'function') {
 		throw new Error(`${route.name} — Must export a function, exported '${typeof exported.default}'`)
 	}
+	if ('handlers' in exported && !isRecord(exported.handlers)) {
+		throw new Error(`${route.name} — 'handlers' must be an object, exported '${typeof exported.handlers}'`)
+	}
+	if ('load' in exported && typeof exported.load !== 'function') {
+		throw new Error(`${route.name} — 'load' must be a function, exported '${typeof exported.load}'`)
+	}
+	if ('prerender' in exported && typeof exported.prerender !== 'boolean') {
+		throw new Error(`${route.name} — 'prerender' must be a boolean, exported '${typeof exported.prerender}'`)
+	}
+	if ('revalidate' in exported && !(typeof exported.revalidate === 'number' && exported.revalidate > 0)) {
+		throw new Error(`${route.name} — 'revalidate' must be a number of seconds, exported '${String(exported.revalidate)}'`)
+	}
 	return exported
 }
 
-function parseModuleBuild(route: Route, exported: ParseModuleResult, env: Env): ParseModuleBuildResult | never {
+function parseModuleHandlers(route: Route, exported: ParseModuleResult): Handlers | never {
+	const handlers: Handlers = {}
+	if (typeof exported.default === 'function') {
+		handlers.GET = toFnAsync(exported.default)
+	}
+	if (!isRecord(exported.handlers)) return handlers
+
+	for (const [method, fn] of Object.entries(exported.handlers)) {
+		if (!handlerMethods.includes(method as HandlerMethod)) {
+			throw new Error(
+				`${route.name} — Unsupported method 'handlers.${method}', `
+				+ `use one of: ${handlerMethods.join(', ')}`
+			)
+		}
+		if (typeof fn !== 'function') {
+			throw new Error(`${route.name} — 'handlers.${method}' must be a function, exported '${typeof fn}'`)
+		}
+		handlers[method as HandlerMethod] = toFnAsync(fn)
+	}
+	return handlers
+}
+
+function allowedMethods(handlers: Handlers): string[] {
+	const methods: string[] = handlerMethods.filter(method => method in handlers)
+	if (handlers.GET) methods.splice(1, 0, 'HEAD')
+	methods.push('OPTIONS')
+	return methods
+}
+
+function parseModuleLoad(route: Route, exported: ParseModuleResult): Load | undefined {
+	if (typeof exported.load !== 'function') return
+	const load = toFnAsync(exported.load)
+	return async (context: PageProps) => {
+		const loaded = await load(context)
+		if (loaded === undefined || isRedirect(loaded) || isHttpError(loaded)) return loaded
+		if (!isPlainObject(loaded)) {
+			throw new Error(`${route.name} — 'load' must return an object, returned '${typeof loaded}'`)
+		}
+		return loaded
+	}
+}
+
+/**
+ * Merges the result of `load` into the page props
+ */
+function withLoadedProps(context: PageProps, loaded: unknown): PageProps {
+	if (!isPlainObject(loaded)) return context
+	const props = isPlainObject(context.props) ? { ...context.props, ...loaded } : loaded
+	return Object.freeze({ ...context, props })
+}
+
+function parseModuleLayout(layout: LayoutRoute, exported: unknown): Layout | never {
+	const fn = unknownProp(exported, 'default')
+	if (typeof fn !== 'function') {
+		throw new Error(`${layout.name} — Layouts must export a default function, exported '${typeof fn}'`)
+	}
+	return toFnAsync(fn)
+}
+
+/**
+ * Wraps rendered output in layouts, innermost first.
+ * Responses and data (e.g. JSON) are returned as-is
+ */
+async function applyLayouts(
+	layouts: Layout[], 
+	context: PageProps, 
+	output: unknown, 
+	renderers: readonly Renderer[]
+): Promise<unknown> {
+	if (typeof output !== 'string' && !findRenderer(renderers, output)) return output
+	for (const layout of [...layouts].reverse()) {
+		output = await layout({ ...context, children: output })
+	}
+	return output
+}
+
+function parseModuleBuild(
+	route: Route, 
+	exported: ParseModuleResult, 
+	env: Env, 
+	prerender: boolean
+): ParseModuleBuildResult | never {
 
 	// default return types are unknown for now
 	// we have to deal with these at build time
@@ -194,6 +473,14 @@ function parseModuleBuild(route: Route, exported: ParseModuleResult, env: Env):
 
 	const hasBuild = 'build' in exported
 
+	// routes without a GET handler (e.g. form endpoints) aren't built statically
+	const hasGet = typeof exported.default === 'function' 
+		|| (isRecord(exported.handlers) && 'GET' in exported.handlers)
+	if (!hasGet) return parsed
+
+	// routes rendered on demand don't need build exports
+	if (!prerender && isStaticEnv(env)) return parsed
+
 	// dynamic routes require build exports when building statically
 	if (!hasBuild && isStaticEnv(env) && isDynamic(route)) {
 		throw new Error(
@@ -270,6 +557,7 @@ function parseResultBuildUrl(route: Route, result: unknown): RouteRequestData |
 	}
 
 	const requiredParams = Object.keys(route.requiredParams)
+		.filter(param => route.requiredParams[param] !== 'optional')
 	if (!isRecordWithKeys(result, requiredParams)) {
 		throw new Error(
 			`Params missing from build.url: [${requiredParams.join(', ')}]`
@@ -287,6 +575,8 @@ function parseResultBuildUrl(route: Route, result: unknown): RouteRequestData |
 export async function responseHandler(
 	input: unknown, 
 	htmlTransform: HTMLTransform = async x => x,
+	htmlStreamTransform?: HTMLStreamTransform,
+	renderers: readonly Renderer[] = defaultRenderers
 ): Promise<Response> | never {
 
 	// undefined returned, this is probably an error
@@ -295,23 +585,29 @@ export async function responseHandler(
 	}
 
 	// user explicitly returned false, or null
-	// NOTE: for now, let's consider this an error, but the intent could
-	// be for a 404, or passing through to another overlapping route
+	// (null from a route handler passes through before getting here)
 	if (input === false || input === null) {
 		throw new Error(`Unsupported return value from route "${typeof input}"`)
 	}
 
-	// accept a web Response object
+	// returned `redirect()` and `notFound()` helpers
+	if (isRedirect(input)) return redirectResponse(input)
+	if (isHttpError(input)) throw input
+
+	// accept a web Response object, 
+	// html documents are transformed, everything else is passed through as-is
 	if (input instanceof Response) {
-		if (input.headers.get('Content-Type') === 'text/html') {
+		if (isHtml(input) && input.body && htmlStreamTransform) {
+			return copyResponse(input, {
+				body: htmlStreamTransform(input.body)
+			})
+		}
+		if (isHtml(input) && input.body) {
 			return copyResponse(input, {
 				body: await htmlTransform(await input.text())
 			})
-		} else {
-			// TODO: support other Content-Types
-			// (this is limited by the static build functionality at the moment)
-			throw new Error(`Currently only "Content-Type: text/*" responses are allowed`)
 		}
+		return input
 	}
 
 	// any string is considered a text/html document by default
@@ -321,22 +617,27 @@ export async function responseHandler(
 		})
 	}
 
-	// render preact DOM nodes
-	// element check copy of isValidElement: 
-	// https://github.com/preactjs/preact/blob/main/src/create-element.js#L86
-	// TODO: investigate stronger type check
-	// e.g. ('_depth' in element) && ('_original' in element) && ('_flags' in element)
-	if (input !== null && input.constructor === undefined) {
-		const { default: renderToString } = await importUserModule('preact-render-to-string')
-		let html = renderToString(input)
+	// render framework output, e.g. preact elements
+	// (before JSON, as elements can be plain objects)
+	const renderer = findRenderer(renderers, input)
+	if (renderer) {
+		if (htmlStreamTransform && renderer.renderToStream) {
+			const stream = await startStream(await renderer.renderToStream(input))
+			return new Response(htmlStreamTransform(stream), {
+				headers: { 'Content-Type': 'text/html' }
+			})
+		}
+		let html = await renderer.render(input)
 		html = await htmlTransform(html) 
 		return new Response(html, {
 			headers: { 'Content-Type': 'text/html' }
 		})
 	}
 
-	// TODO: plan how to include multiple frameworks
-	// identify main frameworks from bundler config, or add providers in config options
+	// plain objects and arrays are serialised to JSON
+	if (isPlainObject(input) || Array.isArray(input)) {
+		return Response.json(input)
+	}
 
 	// everything else is currently unsupported
 	throw new Error(
@@ -344,18 +645,52 @@ export async function responseHandler(
 	)
 }
 
+/**
+ * Waits for the first chunk of a rendered stream, so errors rendering the page 
+ * are thrown before responding (and can be rendered by the `_error` page)
+ */
+async function startStream(stream: ReadableStream<Uint8Array>): Promise<ReadableStream<Uint8Array>> {
+	const reader = stream.getReader()
+	const first = await reader.read()
+	return new ReadableStream({
+		start(controller) {
+			if (first.done) return controller.close()
+			controller.enqueue(first.value)
+		},
+		async pull(controller) {
+			const { done, value } = await reader.read()
+			if (done) return controller.close()
+			controller.enqueue(value)
+		},
+		cancel(reason) {
+			return reader.cancel(reason)
+		}
+	})
+}
+
+function redirectResponse(redirect: Redirect): Response {
+	return new Response(null, {
+		status: redirect.status,
+		headers: { 'Location': redirect.location }
+	})
+}
+
 interface CopyResponseOptions extends ResponseInit {
 	body?: BodyInit
 }
 
 function copyResponse(original: Response, options: CopyResponseOptions = {}) {
-	return new Response(options.body || original.clone().body, {
+	const headers = mergeHeaders(
+		original.headers, 
+		options.headers || {}
+	)
+	// the original length doesn't apply to a transformed body
+	const hasBody = options.body !== undefined
+	if (hasBody) headers.delete('Content-Length')
+	return new Response(hasBody ? options.body : original.clone().body, {
       status: options.status || original.status,
       statusText: options.statusText || original.statusText,
-      headers: mergeHeaders(
-      	original.headers, 
-      	options.headers || {}
-      ),
+      headers,
     })
 }
 
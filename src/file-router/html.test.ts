@@ -0,0 +1,63 @@
+import { addToStream } from './html.ts'
+
+const head = ['<link rel="stylesheet" href="/a.css">']
+const body = ['<script type="module" src="/a.js"></script>']
+
+function streamFrom(chunks: string[]): ReadableStream<Uint8Array> {
+	const encoder = new TextEncoder()
+	return new ReadableStream({
+		start(controller) {
+			for (const chunk of chunks) controller.enqueue(encoder.encode(chunk))
+			controller.close()
+		}
+	})
+}
+
+async function read(stream: ReadableStream<Uint8Array>): Promise<string[]> {
+	const decoder = new TextDecoder()
+	const chunks: string[] = []
+	for await (const chunk of stream as unknown as AsyncIterable<Uint8Array>) {
+		chunks.push(decoder.decode(chunk))
+	}
+	return chunks
+}
+
+const html = '<html><head><title>a</title></head><body><main>content</main></body></html>'
+
+// every way of splitting `html` into two chunks
+const splits = Array.from({ length: html.length - 1 }, (_, i) => [html.slice(0, i + 1), html.slice(i + 1)])
+
+describe('addToStream', () => {
+
+	const expected = '<html><head><title>a</title>' + head[0] + '\n</head><body><main>content</main>  ' + body[0] + '\n</body></html>'
+
+	test('adds tags to a single chunk', async () => {
+		expect((await read(addToStream(streamFrom([html]), head, body))).join('')).toBe(expected)
+	})
+
+	test.each(splits)('adds tags when the document is split: %j %j', async (...chunks) => {
+		expect((await read(addToStream(streamFrom(chunks), head, body))).join('')).toBe(expected)
+	})
+
+	test('adds tags when the document arrives a character at a time', async () => {
+		expect((await read(addToStream(streamFrom([...html]), head, body))).join('')).toBe(expected)
+	})
+
+	test('passes chunks through after the head, holding back a possible `</body>`', async () => {
+		const chunks = await read(addToStream(streamFrom([
+			'<html><head></head><body>',
+			'<main>first</main>',
+			'<main>second</main></bo',
+			'dy></html>',
+		]), head, body))
+		expect(chunks.length).toBeGreaterThan(1)
+		expect(chunks[0]).toContain(head[0])
+		expect(chunks.join('')).toContain('<main>second</main>  ' + body[0] + '\n</body>')
+	})
+
+	test('adds tags to documents without a head or body', async () => {
+		expect((await read(addToStream(streamFrom(['<p>', 'hello</p>']), head, body))).join('')).toBe(
+			head[0] + '\n<p>hello</p>\n' + body[0]
+		)
+	})
+})
@@ -48,3 +48,86 @@ export function addToBody(html: string, tags: string[]): string {
 
 	return html + "\n" + tags.join("\n")
 }
+
+
+// characters held back between chunks, to catch a `</head>` or `</body>` split across them
+const tagLength = '</body>'.length - 1
+
+/**
+ * Adds tags to the head and body of a streamed html document.
+ * Chunks are held until the closing `</head>` tag has been found,
+ * and then passed through as they arrive
+ */
+export function addToStream(stream: ReadableStream<Uint8Array>, head: string[], body: string[]): ReadableStream<Uint8Array> {
+	let pending = ''
+	let headAdded = !head.length
+	let bodyAdded = !body.length
+
+	const inject = new TransformStream<string, string>({
+		transform(chunk, controller) {
+			pending += chunk
+
+			if (!headAdded) {
+				if (!headInjectRegex.test(pending)) return
+				pending = addToHead(pending, head)
+				headAdded = true
+			}
+
+			if (!bodyAdded && bodyInjectRegex.test(pending)) {
+				pending = addToBody(pending, body)
+				bodyAdded = true
+			}
+
+			if (bodyAdded) {
+				controller.enqueue(pending)
+				pending = ''
+				return
+			}
+
+			// hold back the end of the chunk (and its indent) in case it contains part of `</body>`
+			let split = Math.max(0, pending.length - tagLength)
+			while (split > 0 && /[ \t]/.test(pending[split - 1])) split--
+			if (split) controller.enqueue(pending.slice(0, split))
+			pending = pending.slice(split)
+		},
+		flush(controller) {
+			if (!headAdded) pending = addToHead(pending, head)
+			if (!bodyAdded) pending = addToBody(pending, body)
+			if (pending) controller.enqueue(pending)
+		}
+	})
+
+	return (stream as ReadableStream<BufferSource>)
+		.pipeThrough(new TextDecoderStream())
+		.pipeThrough(inject)
+		.pipeThrough(new TextEncoderStream())
+}
+
+function escapeAttribute(value: string): string {
+	return value
+		.replace(/&/g, '&amp;')
+		.replace(/"/g, '&quot;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+}
+
+/**
+ * Html page that redirects to `location`, for hosts that can't send redirect responses
+ */
+export function redirectHtml(location: string): string {
+	const url = escapeAttribute(location)
+	return [
+		`<!doctype html>`,
+		`<html>`,
+		`\t<head>`,
+		`\t\t<meta charset="utf-8">`,
+		`\t\t<meta http-equiv="refresh" content="0; url=${url}">`,
+		`\t\t<link rel="canonical" href="${url}">`,
+		`\t\t<title>Redirecting…</title>`,
+		`\t</head>`,
+		`\t<body>`,
+		`\t\t<a href="${url}">Redirecting to ${url}</a>`,
+		`\t</body>`,
+		`</html>`,
+	].join('\n')
+}
@@ -0,0 +1,13 @@
+// build and match routes from a list of files
+export { buildRoutes } from './routes.ts'
+export type { Route, Routes, MatchedRoute, ParamData } from './routes.ts'
+
+// serve built routes
+export { createFetchHandler } from './fetchHandler.ts'
+export { fileRouterMiddleware } from './middleware.ts'
+
+// thrown or returned from routes
+export { HttpError, isHttpError, redirect, notFound } from './errors.ts'
+
+// regenerate prerendered pages
+export { revalidatePath } from './revalidate.ts'
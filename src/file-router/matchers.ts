@@ -0,0 +1,38 @@
+/**
+ * Validates (and optionally coerces) a param before a route is matched,
+ * e.g. `[id=int]`. A RegExp can also be used, as it has a `test` method
+ */
+export type ParamMatcher = {
+	test: (value: string) => boolean
+	parse?: (value: string) => string | number
+}
+
+export type ParamMatchers = Record<string, ParamMatcher>
+
+const uuidMatch = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// lowercase alphanumeric words separated by single dashes, e.g. `hello-world-2`
+const slugMatch = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+
+export const builtInMatchers: ParamMatchers = Object.freeze({
+	int: {
+		test: value => /^-?\d+$/.test(value) && Number.isSafeInteger(Number(value)),
+		parse: value => Number(value)
+	},
+	uuid: uuidMatch,
+	slug: slugMatch,
+})
+
+/**
+ * Copies RegExp matchers without the `g` and `y` flags, 
+ * as those keep `lastIndex` between calls to `test`
+ */
+export function statelessMatchers(matchers: ParamMatchers): ParamMatchers {
+	const stateless: ParamMatchers = {}
+	for (const [name, matcher] of Object.entries(matchers)) {
+		stateless[name] = (matcher instanceof RegExp && (matcher.global || matcher.sticky))
+			? new RegExp(matcher.source, matcher.flags.replace(/[gy]/g, ''))
+			: matcher
+	}
+	return stateless
+}
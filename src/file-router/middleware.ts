@@ -1,16 +1,92 @@
+import path from 'node:path'
+import serveStatic from 'serve-static'
+import { createServerHandler } from './fetchHandler.ts'
+import { loadRouteManifest, routeManifestFileName } from './routeManifest.ts'
+import { webRequestFromNode, sendNodeResponse, trailingSlashLocation } from './request.ts'
+import type { FetchHandlerOptions } from './fetchHandler.ts'
 import type { IncomingMessage, ServerResponse } from 'node:http'
 
-export function removeTrailingSlash(req: IncomingMessage, res: ServerResponse, next: () => any) {
-	if (!req.url) return next()
-	const url = new URL(req.url, `http://${req.headers.host}/`)
-	if (url.pathname === '/') return next()
-	if (url.pathname && url.pathname.slice(-1) === '/') {
-		const query = url.search || ''
-		const safepath = url.pathname.slice(0, -1).replace(/\/+/g, '/')
-		res.statusCode = 301
-		res.writeHead(301, { 'Location': safepath + query })
+// @ts-ignore
+import createRouter from 'router'
+
+// redirects urls with a trailing slash, except the site's `base` (e.g. `/app/`)
+export function removeTrailingSlash(base: string = '/') {
+	return (req: IncomingMessage, res: ServerResponse, next: () => any) => {
+		if (!req.url) return next()
+		const location = trailingSlashLocation(new URL(req.url, `http://${req.headers.host}/`), base)
+		if (!location) return next()
+		res.writeHead(301, { 'Location': location })
 		res.end()
-	} else {
-		next()
 	}
-}
\ No newline at end of file
+}
+
+/**
+ * Middleware that serves built routes, from the route manifest written by the vite plugin.
+ * Routes are compiled once, so this throws if any routes are invalid
+ */
+export async function fileRouterMiddleware(options: FetchHandlerOptions = {}) {
+
+	// the middleware used to take a vite config path, which is no longer used
+	if (typeof options === 'string') {
+		throw new TypeError(
+			`fileRouterMiddleware() takes an options object, not a vite config path, e.g. { manifest: 'dist/server/routes.json' }`
+		)
+	}
+
+	const {
+		manifest: manifestPath = path.join('dist', 'server', routeManifestFileName),
+		matchers,
+		renderers
+	} = options
+
+	const { 
+		manifest, 
+		routes, 
+		prerendered, 
+		assets,
+		staticDir, 
+		assetsDir, 
+		publicDir 
+	} = await loadRouteManifest(manifestPath, matchers)
+
+	const handler = await createServerHandler({
+		routes,
+		prerendered,
+		staticDir,
+		assets,
+		stylesheets: manifest.stylesheets,
+		stream: manifest.stream,
+		prerender: manifest.prerender,
+		preloadHeaders: manifest.preloadHeaders,
+		base: manifest.base,
+		renderers
+	})
+
+	const main = async (req: any, res: any, next: any) => {
+		if (!req.originalUrl) return next()
+		const response = await handler(webRequestFromNode(req, res), {
+			earlyHints: links => res.writeEarlyHints({ link: links })
+		})
+		// pass unmatched urls on when there isn't a not found page
+		if (!response) return next()
+		return sendNodeResponse(response, res)
+	}
+
+	const router = createRouter()
+
+	// remove trailing slash if necessary
+	if (manifest.removeTrailingSlash) {
+		router.use(removeTrailingSlash(manifest.base))
+	}
+
+	// add assets
+	router.use(manifest.assetsUrl, serveStatic(assetsDir))
+
+	// add public directory
+	if (publicDir) {
+		router.use(manifest.base, serveStatic(publicDir))
+	}
+
+	router.use(main)
+	return router
+}
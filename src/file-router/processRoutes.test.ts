@@ -0,0 +1,396 @@
+import os from 'node:os'
+import path from 'node:path'
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises'
+import { buildRoutes } from './routes.ts'
+import { 
+	BuildStatic, 
+	devRequestHandler, 
+	notFoundRequestHandler, 
+	prerenderedRequestHandler,
+	prodRequestHandler
+} from './processRoutes.ts'
+import { HttpError, redirect, notFound } from './errors.ts'
+import { MultiError } from './../utility/MultiError.ts'
+
+const dir = '/pages'
+
+// routes with their modules, imported from memory instead of the file system
+function routesFrom(modules: Record<string, unknown>) {
+	const routes = buildRoutes({ dir, files: Object.keys(modules).map(file => dir + file) })
+	const importer = async (path: string) => modules[path.replace(dir, '')]
+	return { routes, importer }
+}
+
+// renders the route matching `url`
+async function render(url: string, modules: Record<string, unknown>, init: RequestInit = {}) {
+	const { routes, importer } = routesFrom(modules)
+	const matched = routes.matchRoute(url)
+	if (!matched) throw new Error(`No route matches ${url}`)
+	return devRequestHandler({
+		route: matched.route,
+		params: matched.params,
+		request: new Request('http://localhost' + url, init),
+		importer
+	})
+}
+
+async function buildStatic(modules: Record<string, unknown>, options: { base?: string, prerender?: boolean } = {}) {
+	const { routes, importer } = routesFrom(modules)
+	const builder = new BuildStatic({ base: options.base })
+	builder.add(...routes.routes)
+	builder.addNotFound(routes.findNotFoundRoute('/404'))
+	await builder.build({ importer, prerender: options.prerender })
+	return builder
+}
+
+function decode(body: Uint8Array | undefined) {
+	return body && new TextDecoder().decode(body)
+}
+
+describe('static files', () => {
+
+	test('html pages are written as index.html files', async () => {
+		const builder = await buildStatic({
+			'/index.ts': { default: () => '<h1>home</h1>' },
+			'/about.ts': { default: () => '<h1>about</h1>' },
+		})
+		expect(Object.keys(builder.processed).sort()).toEqual(['/about.html', '/index.html'])
+		expect(decode(builder.processed['/index.html'])).toBe('<h1>home</h1>')
+	})
+
+	test('other responses use the extension for their content type', async () => {
+		const builder = await buildStatic({
+			'/data.ts': { default: () => ({ hello: 'world' }) },
+			'/report.ts': { default: () => new Response('a,b', { headers: { 'Content-Type': 'text/csv; charset=utf-8' } }) },
+			'/robots.ts': { default: () => new Response('User-agent: *', { headers: { 'Content-Type': 'text/plain' } }) },
+		})
+		expect(Object.keys(builder.processed).sort()).toEqual(['/data.json', '/report.csv', '/robots'])
+		expect(decode(builder.processed['/data.json'])).toBe('{"hello":"world"}')
+	})
+
+	test('urls with an extension are written as-is', async () => {
+		const builder = await buildStatic({
+			'/feed.xml.ts': { default: () => new Response('<rss/>', { headers: { 'Content-Type': 'application/rss+xml' } }) },
+			'/manifest.json.ts': { default: () => new Response('{}', { headers: { 'Content-Type': 'application/manifest+json' } }) },
+			'/sitemap.xml.ts': { default: () => new Response('<urlset/>', { headers: { 'Content-Type': 'application/xml' } }) },
+		})
+		expect(Object.keys(builder.processed).sort()).toEqual(['/feed.xml', '/manifest.json', '/sitemap.xml'])
+	})
+})
+
+describe('not found pages', () => {
+
+	const modules = {
+		'/_error.ts': { default: ({ status }: { status: number }) => `error ${status}` },
+		'/blog/_404.ts': { default: ({ url }: { url: URL }) => `blog not found ${url.pathname}` },
+		'/blog/[slug].ts': { default: () => 'post' },
+	}
+
+	async function notFound(url: string, files: Record<string, unknown> = modules) {
+		const { routes, importer } = routesFrom(files)
+		const [response, errors] = await notFoundRequestHandler({
+			errorRoute: routes.findNotFoundRoute(url),
+			request: new Request('http://localhost' + url),
+			importer
+		})
+		expect(errors.length).toBe(0)
+		return response
+	}
+
+	test('use the nearest _404 page', async () => {
+		const response = await notFound('/blog/2024/missing')
+		expect(response.status).toBe(404)
+		expect(await response.text()).toBe('blog not found /blog/2024/missing')
+	})
+
+	test('use the nearest _error page without a _404 page', async () => {
+		const response = await notFound('/missing')
+		expect(response.status).toBe(404)
+		expect(await response.text()).toBe('error 404')
+	})
+
+	test('respond with an empty 404 without an error page', async () => {
+		const response = await notFound('/missing', { '/index.ts': { default: () => 'home' } })
+		expect(response.status).toBe(404)
+		expect(await response.text()).toBe('')
+	})
+
+	test('are built to 404.html', async () => {
+		const builder = await buildStatic({ '/index.ts': { default: () => 'home' }, '/_404.ts': { default: () => 'not found' } })
+		expect(decode(builder.processed['/404.html'])).toBe('not found')
+	})
+})
+
+describe('error pages', () => {
+
+	const modules = {
+		'/_error.ts': { default: ({ status, error }: { status: number, error: Error }) => `${status} ${error.message}` },
+		'/admin/_error.ts': { default: ({ status }: { status: number }) => `admin ${status}` },
+		'/admin/(users)/[id].ts': { default: ({ params }: { params: { id: string } }) => {
+			if (params.id === 'private') throw new HttpError(403, 'Private')
+			if (params.id === 'missing') throw new HttpError(404)
+			throw new Error('broken')
+		} },
+		'/admin/_404.ts': { default: () => 'no such user' },
+		'/teapot.ts': { default: () => { throw new HttpError(418) } },
+	}
+
+	test('render errors with the nearest _error page', async () => {
+		const [response, errors] = await render('/admin/broken', modules)
+		expect(response?.status).toBe(500)
+		expect(await response?.text()).toBe('admin 500')
+		expect(errors.getErrors().map(error => error.message)).toEqual(['broken'])
+	})
+
+	test('use the status of thrown http errors, without logging them', async () => {
+		const [response, errors] = await render('/admin/private', modules)
+		expect(response?.status).toBe(403)
+		expect(await response?.text()).toBe('admin 403')
+		expect(errors.length).toBe(0)
+	})
+
+	test('use the nearest _404 page for not found errors', async () => {
+		const [response] = await render('/admin/missing', modules)
+		expect(response?.status).toBe(404)
+		expect(await response?.text()).toBe('no such user')
+	})
+
+	test('walk up to the root _error page', async () => {
+		const [response] = await render('/teapot', modules)
+		expect(response?.status).toBe(418)
+		expect(await response?.text()).toBe("418 I'm a Teapot")
+	})
+
+	test('keep error statuses returned from the error page', async () => {
+		const [response] = await render('/admin/broken', {
+			...modules,
+			'/admin/_error.ts': { default: () => new Response('unavailable', { status: 503 }) },
+		})
+		expect(response?.status).toBe(503)
+	})
+
+	test('respond with the status when the error page throws', async () => {
+		const [response, errors] = await render('/admin/broken', {
+			...modules,
+			'/admin/_error.ts': { default: () => { throw new Error('error page broken') } },
+		})
+		expect(response?.status).toBe(500)
+		expect(errors.length).toBe(2)
+	})
+})
+
+describe('redirects', () => {
+
+	test('are sent when thrown or returned', async () => {
+		const [thrown] = await render('/old', { '/old.ts': { default: () => { throw redirect('/new') } } })
+		expect(thrown?.status).toBe(307)
+		expect(thrown?.headers.get('Location')).toBe('/new')
+		const [returned] = await render('/old', { '/old.ts': { default: () => redirect('/new', 301) } })
+		expect(returned?.status).toBe(301)
+	})
+
+	test('can be thrown from load', async () => {
+		const [response] = await render('/account', { '/account.ts': { 
+			load: () => { throw redirect('/login', 303) }, 
+			default: () => 'account' 
+		} })
+		expect(response?.status).toBe(303)
+		expect(response?.headers.get('Location')).toBe('/login')
+	})
+
+	test('only use redirect statuses', () => {
+		expect(() => redirect('/new', 200)).toThrow(RangeError)
+	})
+
+	test('are built as html pages, and listed in redirects.json', async () => {
+		const builder = await buildStatic({ '/old.ts': { default: () => redirect('/new', 308) } }, { base: '/app/' })
+		expect(decode(builder.processed['/old.html'])).toContain('<meta http-equiv="refresh" content="0; url=/new">')
+		expect(JSON.parse(decode(builder.processed['/redirects.json']) || '')).toEqual([
+			{ from: '/app/old', to: '/new', status: 308 }
+		])
+		expect(builder.prerendered.pages['/old']).toMatchObject({ status: 308, location: '/new' })
+	})
+})
+
+describe('notFound()', () => {
+
+	test('renders the nearest _404 page', async () => {
+		const [response, errors] = await render('/blog/missing', { 
+			'/blog/_404.ts': { default: () => 'no post' },
+			'/blog/[slug].ts': { default: () => notFound() },
+		})
+		expect(response?.status).toBe(404)
+		expect(await response?.text()).toBe('no post')
+		expect(errors.length).toBe(0)
+	})
+
+	test('skips pages in static builds', async () => {
+		const builder = await buildStatic({ '/[slug].ts': { 
+			build: { from: [{ slug: 'a' }, { slug: 'b' }], url: (props: { slug: string }) => `/${props.slug}` },
+			default: ({ params }: { params: { slug: string } }) => params.slug === 'b' ? notFound() : params.slug
+		} })
+		expect(Object.keys(builder.processed)).toEqual(['/a.html'])
+	})
+})
+
+describe('prerendering', () => {
+
+	test('routes can opt out with `prerender = false`', async () => {
+		const builder = await buildStatic({
+			'/index.ts': { default: () => 'home' },
+			'/account.ts': { prerender: false, default: () => 'account' },
+			// dynamic routes rendered on demand don't need `build` exports
+			'/users/[id].ts': { prerender: false, default: () => 'user' },
+		})
+		expect(Object.keys(builder.processed)).toEqual(['/index.html'])
+		expect(builder.prerendered.routes).toEqual(['/index.ts'])
+	})
+
+	test('routes can opt in when the default is false', async () => {
+		const builder = await buildStatic({
+			'/index.ts': { default: () => 'home' },
+			'/about.ts': { prerender: true, default: () => 'about' },
+		}, { prerender: false })
+		expect(Object.keys(builder.processed)).toEqual(['/about.html'])
+		expect(builder.prerendered.routes).toEqual(['/about.ts'])
+	})
+
+	test('routes without a GET handler aren\'t prerendered', async () => {
+		const builder = await buildStatic({ '/contact.ts': { handlers: { POST: () => ({ sent: true }) } } })
+		expect(builder.processed).toEqual({})
+		expect(builder.prerendered.routes).toEqual([])
+	})
+
+	test('pages are listed in the prerender manifest', async () => {
+		const builder = await buildStatic({ '/blog/[slug].ts': {
+			build: { from: [{ slug: 'hello' }], url: (props: { slug: string }) => `/blog/${props.slug}` },
+			revalidate: 60,
+			default: ({ props }: { props: { slug: string } }) => `<h1>${props.slug}</h1>`,
+		} })
+		expect(builder.prerendered.pages).toEqual({
+			'/blog/hello': {
+				route: '/blog/[slug].ts',
+				file: 'blog/hello.html',
+				type: 'text/html',
+				etag: expect.stringMatching(/^"\w+"$/),
+				revalidate: 60,
+			}
+		})
+	})
+
+	test('`prerender` must be a boolean', async () => {
+		const errors = await buildStatic({ '/index.ts': { prerender: 'no', default: () => 'home' } })
+			.catch((e: MultiError) => e.getErrors().map(error => error.message))
+		expect(errors).toEqual([`/index.ts — 'prerender' must be a boolean, exported 'string'`])
+	})
+})
+
+describe('serving prerendered pages', () => {
+
+	let dir: string
+	let builder: BuildStatic
+
+	beforeAll(async () => {
+		dir = await mkdtemp(path.join(os.tmpdir(), 'prerendered-'))
+		builder = await buildStatic({
+			'/index.ts': { default: () => '<h1>home</h1>' },
+			'/news.ts': { revalidate: 60, default: () => '<h1>news</h1>' },
+			'/old.ts': { default: () => redirect('/new', 301) },
+		})
+		for (const [file, body] of Object.entries(builder.processed)) {
+			await mkdir(path.dirname(path.join(dir, file)), { recursive: true })
+			await writeFile(path.join(dir, file), body)
+		}
+	})
+
+	afterAll(async () => {
+		await rm(dir, { recursive: true, force: true })
+	})
+
+	const serve = (url: string, init?: RequestInit) => prerenderedRequestHandler({
+		manifest: builder.prerendered,
+		request: new Request('http://localhost' + url, init),
+		dir
+	})
+
+	test('with an etag, revalidating on every request', async () => {
+		const response = await serve('/')
+		expect(response?.status).toBe(200)
+		expect(await response?.text()).toBe('<h1>home</h1>')
+		expect(response?.headers.get('Content-Type')).toBe('text/html')
+		expect(response?.headers.get('Cache-Control')).toBe('public, max-age=0, must-revalidate')
+		expect(response?.headers.get('ETag')).toBe(builder.prerendered.pages['/'].etag)
+	})
+
+	test('cached by shared caches until they\'re regenerated', async () => {
+		const response = await serve('/news')
+		expect(response?.headers.get('Cache-Control')).toBe('public, max-age=0, s-maxage=60, stale-while-revalidate=60')
+	})
+
+	test('not modified when the etag matches', async () => {
+		const etag = builder.prerendered.pages['/'].etag
+		const response = await serve('/', { headers: { 'If-None-Match': etag } })
+		expect(response?.status).toBe(304)
+		expect(response?.body).toBeNull()
+	})
+
+	test('without a body for HEAD requests', async () => {
+		const response = await serve('/', { method: 'HEAD' })
+		expect(response?.status).toBe(200)
+		expect(response?.headers.get('Content-Length')).toBe('13')
+		expect(response?.body).toBeNull()
+	})
+
+	test('as redirect responses', async () => {
+		const response = await serve('/old')
+		expect(response?.status).toBe(301)
+		expect(response?.headers.get('Location')).toBe('/new')
+	})
+
+	test('only for GET requests to prerendered pages', async () => {
+		expect(await serve('/', { method: 'POST' })).toBeNull()
+		expect(await serve('/missing')).toBeNull()
+	})
+})
+
+describe('compiling routes once', () => {
+
+	test('imports each route once, at startup', async () => {
+		const { routes, importer } = routesFrom({
+			'/index.ts': { default: () => 'home' },
+			'/[slug].ts': { default: ({ params }: { params: { slug: string } }) => params.slug },
+		})
+		const imported: string[] = []
+		const handler = await prodRequestHandler({
+			routes: routes.routes,
+			importer: async path => {
+				imported.push(path)
+				return importer(path)
+			}
+		})
+		expect(imported.sort()).toEqual(['/pages/[slug].ts', '/pages/index.ts'])
+
+		for (const url of ['/', '/a', '/b']) {
+			const matched = routes.matchRoute(url)
+			if (!matched) throw new Error(`No route matches ${url}`)
+			const [response, errors] = await handler({ ...matched, request: new Request('http://localhost' + url) })
+			expect(errors.length).toBe(0)
+			expect(response?.status).toBe(200)
+		}
+		expect(imported).toHaveLength(2)
+	})
+
+	test('throws for every invalid route at startup', async () => {
+		const { routes, importer } = routesFrom({
+			'/a.ts': { default: 'nope' },
+			'/b.ts': { handlers: 'nope' },
+			'/c.ts': { default: () => 'ok' },
+		})
+		const errors = await prodRequestHandler({ routes: routes.routes, importer })
+			.catch((e: MultiError) => e.getErrors().map(error => error.message))
+		expect(errors).toEqual([
+			`/a.ts — Must export a function, exported 'string'`,
+			`/b.ts — 'handlers' must be an object, exported 'string'`,
+		])
+	})
+})
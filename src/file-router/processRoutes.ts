@@ -1,41 +1,56 @@
 import path from 'node:path'
 import { styleText } from 'node:util'
-import { writeFile, mkdir } from 'node:fs/promises'
+import { writeFile, mkdir, readFile } from 'node:fs/promises'
 import { MultiError } from '../utility/MultiError.ts'
+import { HttpError, isHttpError } from './errors.ts'
 
 import { 
 	isBasic, 
 	isDynamic, 
 	type Route, 
+	type ErrorRoute, 
 	type RouteRequestData, 
 	type ParamData 
 } from './routes.ts'
 
 import { 
 	createFileRoute, 
+	errorRouteHandler, 
 	getPageProps, 
 	env, 
 	type FileRoute, 
 	type UserHTMLTransform, 
+	type UserHTMLStreamTransform,
 	type Importer 
 } from './fileRoute.ts'
 
 import { 
 	staticRequestFromPath, 
-	extension, 
-	isTextFormat 
+	extension,
+	redirectLocation
 } from './request.ts'
 
+import { redirectHtml } from './html.ts'
+import { sha } from '../utility/crypto.ts'
+import type { Renderer } from './renderers.ts'
+
 
 type BuildStaticItemOpts = {
-	htmlTransform?: (html: string) => Promise<string>
+	htmlTransform?: UserHTMLTransform
 	importer?: (path: string) => Promise<unknown>
 	fixStacktrace?: (e: Error) => void
+	// default for routes that don't export `prerender`
+	prerender?: boolean
+	// only render the page for this path, e.g. to regenerate a single page
+	path?: string
+	renderers?: readonly Renderer[]
 }
 
 class BuildStaticItem {
 	route: Route
 	output: Array<[string, Response]> = []
+	prerendered: boolean = false
+	revalidate: number | undefined
 
 	constructor(route: Route) {
 		this.route = route
@@ -45,7 +60,10 @@ class BuildStaticItem {
 		const { 
 			htmlTransform = async html => html,
 			importer = async (path: string) => await import(path),
-			fixStacktrace = (e: Error) => {}
+			fixStacktrace = (e: Error) => {},
+			prerender = true,
+			path: only,
+			renderers
 		} = options
 
 		const pageErrors = new MultiError('', { 
@@ -55,14 +73,23 @@ class BuildStaticItem {
 
 		let compiled: FileRoute
 		try {
-			compiled = await createFileRoute(this.route, importer, env.STATIC)	
+			compiled = await createFileRoute(this.route, importer, env.STATIC, { prerender, renderers })	
 		} catch(e) {
 			if (e instanceof Error) return pageErrors.add(e)
 			return pageErrors
 		}
 
+		// only GET requests can be rendered to static files
+		if (!compiled.methods.includes('GET')) return pageErrors
+
+		// routes with `prerender = false` are rendered on demand
+		if (!compiled.prerender) return pageErrors
+		this.prerendered = true
+		this.revalidate = compiled.revalidate
+
 		if (isBasic(this.route)) {
 			const path = this.route.routepath
+			if (only !== undefined && path !== only) return pageErrors
 			const req = staticRequestFromPath(path)
 			const props = getPageProps({ 
 				req, 
@@ -71,8 +98,9 @@ class BuildStaticItem {
 			})
 			try {
 				const res = await compiled.handler(props, htmlTransform)
-				this.output.push([path, res])
+				if (res) this.output.push([path, res])
 			} catch(e) {
+				if (isNotFound(e)) return pageErrors
 				if (e instanceof Error) pageErrors.add(e)
 			}
 		} else if (isDynamic(this.route)) {
@@ -87,6 +115,7 @@ class BuildStaticItem {
 					return
 				}
 				const { path, params } = urlProps
+				if (only !== undefined && path !== only) return
 				const req = staticRequestFromPath(path)
 				const props = getPageProps({ 
 					req, 
@@ -95,9 +124,12 @@ class BuildStaticItem {
 				})
 
 				try {
+					// pages that pass through (returning null) aren't written
 					const res = await compiled.handler(props, htmlTransform)
-					this.output.push([path, res])
+					if (res) this.output.push([path, res])
 				} catch(e) {
+					// pages can opt out of the build with `notFound()`
+					if (isNotFound(e)) return
 					if (e instanceof Error) pageErrors.add(e)
 					return
 				}
@@ -107,11 +139,76 @@ class BuildStaticItem {
 	}
 }
 
+function isNotFound(error: unknown): boolean {
+	return isHttpError(error) && error.status === 404
+}
+
+/**
+ * The contents of a static file, redirects are written as html pages with a meta refresh
+ */
+export async function staticBody(response: Response): Promise<Uint8Array> {
+	const location = redirectLocation(response)
+	if (location) return new TextEncoder().encode(redirectHtml(location))
+	return new Uint8Array(await response.arrayBuffer())
+}
+
+type StaticPathRequestHandlerArgs = BuildStaticItemOpts & {
+	route: Route
+	path: string
+}
+
+/**
+ * Renders a single page as it would be built statically (with props from `build.from`),
+ * resolving to a null response if the route doesn't build the path
+ */
+export async function staticPathRequestHandler(args: StaticPathRequestHandlerArgs): Promise<[Response | null, MultiError]> {
+	const { route, ...options } = args
+	const builder = new BuildStaticItem(route)
+	const errors = await builder.buildStatic(options)
+	const output = builder.output.find(([url]) => url === args.path)
+	return [output ? output[1] : null, errors]
+}
+
+type StaticRedirect = {
+	from: string
+	to: string
+	status: number
+}
+
+// host-neutral list of redirects, to convert to a host's redirect config
+const redirectsManifest = '/redirects.json'
+
+export type PrerenderedPage = {
+	// name of the route that rendered the page
+	route: string
+	// path relative to the static output directory
+	file: string
+	type: string
+	etag: string
+	// redirects are sent as redirect responses when served by the middleware
+	status?: number
+	location?: string
+	// seconds before the page is regenerated
+	revalidate?: number
+}
+
+/**
+ * Prerendered routes and pages, so the production middleware can serve 
+ * the static files and only render the other routes on demand
+ */
+export type PrerenderManifest = {
+	// names of prerendered routes
+	routes: string[]
+	// prerendered pages, by url
+	pages: Record<string, PrerenderedPage>
+}
+
 
 /**
 	Builds routes into static files. Usage:
 	```ts
 	const builder = new BuildStatic(route: Route, options)
+	builder.addNotFound(errorRoute)
 	builder.build({ htmlTransform, importer })
 	builder.write(outputDir, buildDir)
 	```
@@ -119,21 +216,31 @@ class BuildStaticItem {
 
 type BuildStaticOpts = {
 	fixStacktrace?: (e: Error) => void
+	// url path the site is served from, e.g. `/app/`, added to redirect urls
+	base?: string
 }
 
 export class BuildStatic {
 	builders: BuildStaticItem[] = []
+	notFoundRoute: ErrorRoute | undefined
 	errors: MultiError
-	processed: Record<string, string> = {}
+	fixStacktrace: (e: Error) => void
+	base: string
+	processed: Record<string, Uint8Array> = {}
+	redirects: StaticRedirect[] = []
+	prerendered: PrerenderManifest = { routes: [], pages: {} }
 	
 	constructor(options: BuildStaticOpts = {}) {
 		const {
-			fixStacktrace = (e: Error) => {}
+			fixStacktrace = (e: Error) => {},
+			base = '/'
 		} = options
 
 		this.errors = new MultiError('(static) error while building pages', {
 			fixStacktrace
 		})
+		this.fixStacktrace = fixStacktrace
+		this.base = base
 	}
 
 	add(...routes: Route[]) {
@@ -141,36 +248,91 @@ export class BuildStatic {
 		this.builders.push(...builders)
 	}
 
+	// the `_404` or `_error` route, rendered to `404.html`
+	addNotFound(route: ErrorRoute | undefined) {
+		this.notFoundRoute = route
+	}
+
 	async build(options: BuildStaticItemOpts = {}) {
 		// build all routes
 		const buildErrs = await Promise.all(this.builders.map(builder => builder.buildStatic(options)))
 		this.errors.merge(...buildErrs)
+		const outputs = this.builders.flatMap(builder => builder.output)
+		const pageBuilders = new Map(this.builders.flatMap(builder => {
+			return builder.output.map(output => [output, builder] as const)
+		}))
+		this.prerendered.routes = this.builders
+			.filter(builder => builder.prerendered)
+			.map(builder => builder.route.name)
+
+		if (this.notFoundRoute) {
+			const [response, errors] = await notFoundRequestHandler({
+				errorRoute: this.notFoundRoute,
+				request: staticRequestFromPath('/404'),
+				importer: options.importer,
+				htmlTransform: options.htmlTransform,
+				renderers: options.renderers,
+				fixStacktrace: this.fixStacktrace
+			})
+			this.errors.merge(errors)
+			if (!errors.length) outputs.push(['/404', response])
+		}
 
 		// dry run to check for duplicates
-		await Promise.all(this.builders.map(async builder => {
-			await Promise.all(builder.output.map(async (output) => {
-				const [url, response] = output
+		await Promise.all(outputs.map(async (output) => {
+			const [url, response] = output
+
+			// redirects are written as html pages with a meta refresh
+			const location = redirectLocation(response)
+			if (location) {
+				const from = this.base.replace(/\/$/, '') + url
+				this.redirects.push({ from, to: location, status: response.status })
+			}
 
-				const body = await response.text()
-				if (typeof body === 'undefined') {
-					this.errors.add(new Error(`${url} – Nothing returned from handler`))
-					return
-				}
+			const body = await staticBody(response)
+			if (typeof body === 'undefined') {
+				this.errors.add(new Error(`${url} – Nothing returned from handler`))
+				return
+			}
 
-				const ext = extension(response)
-				const filename = outputFileName(url, ext)
-				const exists = this.processed[filename]	
-				if (exists) {
-					this.errors.add(new Error(`"${filename}" already exists, skipping duplicate`))
-					return
-				}
-				this.processed[filename] = body
-			}))
+			const ext = location ? 'html' : extension(response)
+			const filename = outputFileName(url, ext)
+			const exists = this.processed[filename]	
+			if (exists) {
+				this.errors.add(new Error(`"${filename}" already exists, skipping duplicate`))
+				return
+			}
+			this.processed[filename] = body
+
+			// the not found page is only used for unmatched urls
+			const builder = pageBuilders.get(output)
+			if (!builder) return
+			this.prerendered.pages[url] = {
+				route: builder.route.name,
+				file: filename.replace(/^\//, ''),
+				type: location ? 'text/html' : response.headers.get('Content-Type') || 'text/plain',
+				etag: `"${sha(Buffer.from(body), 16)}"`,
+				...(location ? { status: response.status, location } : {}),
+				...(builder.revalidate ? { revalidate: builder.revalidate } : {})
+			}
 		}))
 
+		if (this.redirects.length) {
+			if (this.processed[redirectsManifest]) {
+				this.errors.add(new Error(`"${redirectsManifest}" already exists, can't write redirects`))
+			}
+			const redirects = this.redirects.sort((a, b) => a.from.localeCompare(b.from))
+			this.processed[redirectsManifest] = new TextEncoder().encode(JSON.stringify(redirects, null, '\t'))
+		}
+
 		if (this.errors.length) throw this.errors
 	}
 
+	// writes the prerender manifest for `prerenderedRequestHandler`
+	async writeManifest(file: string) {
+		await emitFile(file, JSON.stringify(this.prerendered, null, '\t'))
+	}
+
 	async write(outputDir: string, buildDir: string) {
 		const entries = Object.entries(this.processed)
 		const number = entries.length
@@ -204,15 +366,18 @@ export class BuildStatic {
 	}
 }
 
-function outputFileName(path: string, type:string = '') {
-	let base = path
-	if (path.endsWith('/')) base += 'index'
-	if (type) base+= `.${type}`
+function outputFileName(url: string, type:string = '') {
+	let base = url
+	if (url.endsWith('/')) base += 'index'
+	// routes like `feed.xml.ts` already include an extension, which is kept
+	// even if it isn't the one for the content type (e.g. `.xml` for `application/rss+xml`)
+	const hasExtension = path.posix.extname(base) !== ''
+	if (type && !hasExtension) base+= `.${type}`
 	return base
 }
 
 
-async function emitFile(outputPath: string, contents: string) {
+async function emitFile(outputPath: string, contents: string | Uint8Array) {
 	await mkdir(path.dirname(outputPath), { recursive: true })
 	await writeFile(outputPath, contents, { flag: 'w+' })
 }
@@ -224,21 +389,23 @@ type DevRequestHandlerArgs = {
 	params: ParamData
 	importer?: Importer
 	htmlTransform?: UserHTMLTransform,
+	htmlStreamTransform?: UserHTMLStreamTransform,
+	renderers?: readonly Renderer[],
 	fixStacktrace?: (e: Error) => void
 }
 
-export async function devRequestHandler(args: DevRequestHandlerArgs): Promise<[Response, MultiError]> {
+/**
+ * Renders a route, resolving to a null response when the route passes through
+ */
+export async function devRequestHandler(args: DevRequestHandlerArgs): Promise<[Response | null, MultiError]> {
 
 	const { 
 		route, 
-		request, 
-		params, 
 		importer = (path: string) => import(path), 
-		htmlTransform = async html => html,
+		renderers,
 		fixStacktrace = () => {} 
 	} = args
 
-	let response: Response
 	let compiled: FileRoute
 	const errors = new MultiError('(dev) error on route request handler', { 
 		prefix: route.name, 
@@ -246,14 +413,89 @@ export async function devRequestHandler(args: DevRequestHandlerArgs): Promise<[R
 	})
 	
 	try {
-		compiled = await createFileRoute(route, importer, env.DEV)
+		compiled = await createFileRoute(route, importer, env.DEV, { renderers })
 	} catch(e) {
-		if (e instanceof Error) {
-			errors.add(e)
-			response = new Response(null, { status: 500 })
-			return [response, errors]
+		if (e instanceof Error) errors.add(e)
+		return [new Response(null, { status: 500 }), errors]
+	}
+
+	const response = await compiledRequestHandler(compiled, args, errors)
+
+	// returns a [response, errors] tuple so that we can separately
+	// log to the console and display the correct error message in HMR
+	// the caller is expected to deal with this as it sees fit
+	return [response, errors]	
+}
+
+type RouteRequestArgs = Pick<DevRequestHandlerArgs, 'route' | 'request' | 'params'>
+
+type ProdRequestHandlerArgs = Omit<DevRequestHandlerArgs, keyof RouteRequestArgs> & {
+	routes: Route[]
+}
+
+type ProdRequestHandler = (args: RouteRequestArgs) => Promise<[Response | null, MultiError]>
+
+/**
+ * Compiles every route once at startup, rather than importing routes on each request.
+ * Throws a MultiError if any routes can't be compiled, e.g. with invalid exports
+ */
+export async function prodRequestHandler(args: ProdRequestHandlerArgs): Promise<ProdRequestHandler> {
+
+	const { 
+		routes,
+		importer = (path: string) => import(path), 
+		renderers,
+		fixStacktrace = () => {} 
+	} = args
+
+	const compiled = new Map<Route, FileRoute>()
+	const errors = new MultiError('error compiling routes', { fixStacktrace })
+
+	await Promise.all(routes.map(async route => {
+		try {
+			compiled.set(route, await createFileRoute(route, importer, env.BUILD, { renderers }))
+		} catch(e) {
+			if (e instanceof Error) errors.merge(
+				new MultiError('', { prefix: route.name, fixStacktrace }).add(e)
+			)
+		}
+	}))
+	if (errors.length) throw errors
+
+	return async (requestArgs: RouteRequestArgs) => {
+		const { route } = requestArgs
+		const routeErrors = new MultiError('error on route request handler', { 
+			prefix: route.name, 
+			fixStacktrace
+		})
+		const fileRoute = compiled.get(route)
+		if (!fileRoute) {
+			routeErrors.add(new Error(`Route was not compiled`))
+			return [new Response(null, { status: 500 }), routeErrors]
 		}
+		const response = await compiledRequestHandler(fileRoute, { ...args, ...requestArgs }, routeErrors)
+		return [response, routeErrors]
 	}
+}
+
+/**
+ * Renders a compiled route, or its error page if the route throws.
+ * Errors are added to `errors`
+ */
+async function compiledRequestHandler(
+	compiled: FileRoute, 
+	args: DevRequestHandlerArgs, 
+	errors: MultiError
+): Promise<Response | null> {
+
+	const { 
+		request, 
+		params, 
+		htmlTransform = async html => html,
+		htmlStreamTransform,
+	} = args
+
+	let response: Response | null
 
 	async function handler() {
 		const props = getPageProps({ 
@@ -261,31 +503,34 @@ export async function devRequestHandler(args: DevRequestHandlerArgs): Promise<[R
 			routeParams: params,
 			props: {}
 		})
-		return await compiled.handler(props, htmlTransform)
+		return await compiled.handler(props, htmlTransform, htmlStreamTransform)
 	}
 
-	async function errorHandler(error: Error) {
+	async function errorHandler(error: Error, status: number) {
 		const props = {
 			error,
+			status,
 			...getPageProps({ 
 				req: request, 
 				routeParams: params,
 				props: {}
 			})
 		}
-		return await compiled.errorHandler(props, htmlTransform)
+		return await compiled.errorHandler(props, htmlTransform, htmlStreamTransform)
 	}
 
 	try {
 		response = await handler()
 	} catch(mainErr) {
-		response = new Response(null, { status: 500 })
+		// thrown http errors render the error page, but aren't logged as errors
+		const status = isHttpError(mainErr) ? mainErr.status : 500
+		response = new Response(null, { status })
 		if (mainErr instanceof Error) {
-			errors.add(mainErr)
+			if (!isHttpError(mainErr)) errors.add(mainErr)
 			try {
-				response = await errorHandler(mainErr)	
+				response = await errorHandler(mainErr, status)	
 			} catch(errorErr) {
-				response = new Response(null, { status: 500 })
+				response = new Response(null, { status })
 				if (errorErr instanceof Error) {
 					errors.add(errorErr)
 				}
@@ -293,8 +538,109 @@ export async function devRequestHandler(args: DevRequestHandlerArgs): Promise<[R
 		}
 	}
 
-	// returns a [response, errors] tuple so that we can separately
-	// log to the console and display the correct error message in HMR
-	// the caller is expected to deal with this as it sees fit
-	return [response, errors]	
-}
\ No newline at end of file
+	return response
+}
+
+
+type NotFoundRequestHandlerArgs = Omit<DevRequestHandlerArgs, 'route' | 'params'> & {
+	errorRoute: ErrorRoute | undefined
+}
+
+/**
+ * Renders the `_404` (or `_error`) route for an unmatched url, with a 404 status
+ */
+export async function notFoundRequestHandler(args: NotFoundRequestHandlerArgs): Promise<[Response, MultiError]> {
+
+	const { 
+		errorRoute, 
+		request, 
+		importer = (path: string) => import(path), 
+		htmlTransform = async html => html,
+		htmlStreamTransform,
+		renderers,
+		fixStacktrace = () => {} 
+	} = args
+
+	const errors = new MultiError('error on not found request handler', { 
+		prefix: errorRoute?.name, 
+		fixStacktrace
+	})
+
+	const props = {
+		error: new HttpError(404, `Not found: ${new URL(request.url).pathname}`),
+		status: 404,
+		...getPageProps({ 
+			req: request, 
+			routeParams: {},
+			props: {}
+		})
+	}
+
+	try {
+		const response = await errorRouteHandler({
+			errorRoute,
+			context: props,
+			importer,
+			htmlTransform,
+			htmlStreamTransform,
+			renderers,
+		})
+		return [response, errors]
+	} catch(e) {
+		if (e instanceof Error) errors.add(e)
+		return [new Response(null, { status: 404 }), errors]
+	}
+}
+
+
+type PrerenderedRequestHandlerArgs = {
+	manifest: PrerenderManifest
+	request: Request
+	// decoded url path of the page, without the site's base (defaults to the request's path)
+	path?: string
+	// the static output directory
+	dir: string
+}
+
+/**
+ * Serves a prerendered page from the static output directory,
+ * resolves to null when the url wasn't prerendered
+ */
+export async function prerenderedRequestHandler(args: PrerenderedRequestHandlerArgs): Promise<Response | null> {
+	const { 
+		manifest, 
+		request, 
+		path: pagePath = decodeURIComponent(new URL(request.url).pathname), 
+		dir 
+	} = args
+
+	const method = request.method.toUpperCase()
+	if (method !== 'GET' && method !== 'HEAD') return null
+
+	const page = manifest.pages[pagePath]
+	if (!page) return null
+
+	if (page.location) {
+		return new Response(null, { status: page.status, headers: { 'Location': page.location } })
+	}
+
+	// html is revalidated on every request, as pages can change with each build,
+	// shared caches can serve regenerated pages until they're stale,
+	// and a stale page for another period while they fetch the next one
+	const cacheControl = page.revalidate 
+		? `public, max-age=0, s-maxage=${page.revalidate}, stale-while-revalidate=${page.revalidate}`
+		: 'public, max-age=0, must-revalidate'
+	const headers = {
+		'Content-Type': page.type,
+		'Cache-Control': cacheControl,
+		'ETag': page.etag,
+	}
+	if (request.headers.get('If-None-Match') === page.etag) {
+		return new Response(null, { status: 304, headers })
+	}
+
+	const body = await readFile(path.join(dir, page.file))
+	return new Response(method === 'HEAD' ? null : new Uint8Array(body), {
+		headers: { ...headers, 'Content-Length': String(body.byteLength) }
+	})
+}
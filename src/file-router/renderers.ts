@@ -0,0 +1,45 @@
+import { importUserModule } from '../utility/userEnv.ts'
+import { isRecord } from '../utility/types.ts'
+
+type PromiseOr<T> = Promise<T> | T
+
+/**
+ * Renders framework output returned from routes and layouts, e.g. Preact or React elements.
+ * The first renderer that passes `test` is used
+ */
+export type Renderer = {
+	name: string
+	// whether the renderer can render the output
+	test: (input: unknown) => boolean
+	// renders the output to an html string
+	render: (input: unknown) => PromiseOr<string>
+	// renders the output to an html stream when `stream` is set, otherwise `render` is used
+	renderToStream?: (input: unknown) => PromiseOr<ReadableStream<Uint8Array>>
+}
+
+export const preactRenderer: Renderer = {
+	name: 'preact',
+	// element check copy of isValidElement:
+	// https://github.com/preactjs/preact/blob/main/src/create-element.js#L86
+	// TODO: investigate stronger type check
+	// e.g. ('_depth' in element) && ('_original' in element) && ('_flags' in element)
+	test: input => isRecord(input) && input.constructor === undefined,
+	// render with the user's instance of preact
+	async render(input) {
+		const { default: renderToString } = await importUserModule('preact-render-to-string')
+		return renderToString(input)
+	},
+	async renderToStream(input) {
+		const { renderToReadableStream } = await importUserModule('preact-render-to-string/stream')
+		const stream = renderToReadableStream(input)
+		// render errors also error the stream, which is where they're handled
+		stream.allReady.catch(() => {})
+		return stream
+	},
+}
+
+export const defaultRenderers: readonly Renderer[] = Object.freeze([preactRenderer])
+
+export function findRenderer(renderers: readonly Renderer[], input: unknown): Renderer | undefined {
+	return renderers.find(renderer => renderer.test(input))
+}
@@ -0,0 +1,33 @@
+import { stripBase, trailingSlashLocation } from './request.ts'
+
+describe('base path', () => {
+
+	test('paths are relative to the base', () => {
+		expect(stripBase('/blog/post')).toBe('/blog/post')
+		expect(stripBase('/app/blog/post', '/app/')).toBe('/blog/post')
+		expect(stripBase('/app/', '/app/')).toBe('/')
+		expect(stripBase('/app', '/app/')).toBe('/')
+	})
+
+	test('paths outside the base are undefined', () => {
+		expect(stripBase('/blog', '/app/')).toBeUndefined()
+		expect(stripBase('/application', '/app/')).toBeUndefined()
+	})
+})
+
+describe('trailing slashes', () => {
+
+	const location = (url: string, base?: string) => trailingSlashLocation(new URL(url, 'http://localhost'), base)
+
+	test('are removed, keeping the query string', () => {
+		expect(location('/blog/')).toBe('/blog')
+		expect(location('/blog/?page=2')).toBe('/blog?page=2')
+		expect(location('/app/blog/', '/app/')).toBe('/app/blog')
+	})
+
+	test('are kept on the root and the base', () => {
+		expect(location('/')).toBeUndefined()
+		expect(location('/app/', '/app/')).toBeUndefined()
+		expect(location('/blog')).toBeUndefined()
+	})
+})
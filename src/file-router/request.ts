@@ -14,6 +14,30 @@ export function staticRequestFromPath(path: string) {
 }
 
 
+/**
+ * Url path relative to the site's `base`, e.g. `/app/blog` is `/blog` with a base of `/app/`.
+ * Undefined for paths outside of the base
+ */
+export function stripBase(pathname: string, base: string = '/'): string | undefined {
+	const prefix = base.replace(/\/$/, '')
+	if (!prefix) return pathname
+	if (pathname === prefix) return '/'
+	if (!pathname.startsWith(prefix + '/')) return
+	return pathname.slice(prefix.length)
+}
+
+
+/**
+ * Where to redirect a url with a trailing slash, undefined if it doesn't need redirecting. 
+ * The site's `base` (e.g. `/app/`) keeps its trailing slash
+ */
+export function trailingSlashLocation(url: URL, base: string = '/'): string | undefined {
+	if (url.pathname === '/' || url.pathname === base || !url.pathname.endsWith('/')) return
+	const safepath = url.pathname.slice(0, -1).replace(/\/+/g, '/')
+	return safepath + url.search
+}
+
+
 export function webRequestFromNode(req: NodeRequest, res: NodeResponse): Request {
 	// @ts-expect-error: replace url with vite's req.originalUrl
 	req.url = req.originalUrl
@@ -33,18 +57,47 @@ const mimeTypes = {
 	'text/css': 'css',
 	'text/csv': 'csv',
 	'text/calendar': 'ics',
-  	'application/json': 'json'
+	'text/xml': 'xml',
+	'text/markdown': 'md',
+	'application/json': 'json',
+	'application/manifest+json': 'webmanifest',
+	'application/ld+json': 'jsonld',
+	'application/xml': 'xml',
+	'application/rss+xml': 'rss',
+	'application/atom+xml': 'atom',
+	'application/javascript': 'js',
+	'application/pdf': 'pdf',
+	'image/svg+xml': 'svg',
+	'image/png': 'png',
+	'image/jpeg': 'jpg',
+	'image/gif': 'gif',
+	'image/webp': 'webp',
+	'image/avif': 'avif',
+	'image/x-icon': 'ico',
 } as const
 
 type Extension = typeof mimeTypes[keyof typeof mimeTypes]
 
-export function extension(response: Response): Extension {
-	const mimeType = (response.headers.get('Content-Type') || '') as keyof typeof mimeTypes
-	if (!mimeType || !(mimeType in mimeTypes)) return mimeTypes['text/plain']
-	return mimeTypes[mimeType]
+/**
+ * Content-Type without parameters, e.g. `text/html; charset=utf-8` -> `text/html`
+ */
+export function mimeType(response: Response): string {
+	const contentType = response.headers.get('Content-Type') || ''
+	return contentType.split(';')[0].trim().toLowerCase()
 }
 
-export function isTextFormat(response: Response): boolean {
-	const mime = response.headers.get('Content-Type') || ''
-	return mime in mimeTypes
-}
\ No newline at end of file
+export function isHtml(response: Response): boolean {
+	return mimeType(response) === 'text/html'
+}
+
+// the location of a redirect response, e.g. from `redirect()`
+export function redirectLocation(response: Response): string | undefined {
+	if (response.status < 300 || response.status > 399) return
+	return response.headers.get('Location') || undefined
+}
+
+export function extension(response: Response): Extension {
+	const mime = mimeType(response) as keyof typeof mimeTypes
+	if (!mime || !(mime in mimeTypes)) return mimeTypes['text/plain']
+	return mimeTypes[mime]
+}
@@ -0,0 +1,98 @@
+import os from 'node:os'
+import path from 'node:path'
+import { mkdtemp, writeFile, readFile, utimes, rm } from 'node:fs/promises'
+import { createRevalidator, revalidatePath } from './revalidate.ts'
+import type { PrerenderManifest } from './processRoutes.ts'
+
+let dir: string
+
+beforeEach(async () => {
+	dir = await mkdtemp(path.join(os.tmpdir(), 'revalidate-'))
+	await writeFile(path.join(dir, 'index.html'), 'old')
+})
+
+afterEach(async () => {
+	await rm(dir, { recursive: true, force: true })
+})
+
+function manifest(revalidate?: number): PrerenderManifest {
+	return {
+		routes: ['/index.ts'],
+		pages: {
+			'/': { route: '/index.ts', file: 'index.html', type: 'text/html', etag: '"old"', revalidate }
+		}
+	}
+}
+
+const html = (body: string, status = 200) => new Response(body, { status, headers: { 'Content-Type': 'text/html' } })
+
+// renders `body`, counting the renders
+function renderer(body: string) {
+	const render = async () => {
+		render.calls++
+		return html(body)
+	}
+	render.calls = 0
+	return render
+}
+
+describe('revalidating prerendered pages', () => {
+
+	test('writes the page and updates its etag', async () => {
+		const pages = manifest()
+		const revalidator = createRevalidator({ manifest: pages, dir, render: async () => html('new') })
+		expect(await revalidator.revalidate('/')).toBe(true)
+		expect(await readFile(path.join(dir, 'index.html'), 'utf8')).toBe('new')
+		expect(pages.pages['/'].etag).not.toBe('"old"')
+		revalidator.unregister()
+	})
+
+	test('keeps the previous page when rendering fails', async () => {
+		const pages = manifest()
+		const revalidator = createRevalidator({ manifest: pages, dir, render: async () => html('error', 500) })
+		expect(await revalidator.revalidate('/')).toBe(false)
+		expect(await revalidator.revalidate('/missing')).toBe(false)
+		expect(await readFile(path.join(dir, 'index.html'), 'utf8')).toBe('old')
+		expect(pages.pages['/'].etag).toBe('"old"')
+		revalidator.unregister()
+	})
+
+	test('only regenerates pages older than `revalidate`', async () => {
+		const render = renderer('new')
+		const revalidator = createRevalidator({ manifest: manifest(60), dir, render })
+		await revalidator.revalidateIfStale('/')
+		expect(render.calls).toBe(0)
+
+		const file = path.join(dir, 'index.html')
+		const hourAgo = new Date(Date.now() - 3600 * 1000)
+		await utimes(file, hourAgo, hourAgo)
+		const stale = createRevalidator({ manifest: manifest(60), dir, render })
+		await stale.revalidateIfStale('/')
+		expect(render.calls).toBe(1)
+		stale.unregister()
+	})
+
+	test('renders each page once at a time', async () => {
+		const render = renderer('new')
+		const revalidator = createRevalidator({ manifest: manifest(), dir, render })
+		await Promise.all([revalidator.revalidate('/'), revalidator.revalidate('/')])
+		expect(render.calls).toBe(1)
+		revalidator.unregister()
+	})
+})
+
+describe('revalidatePath', () => {
+
+	test('uses the latest revalidator for each directory', async () => {
+		const first = renderer('first')
+		const second = renderer('second')
+		createRevalidator({ manifest: manifest(), dir, render: first })
+		const revalidator = createRevalidator({ manifest: manifest(), dir, render: second })
+		expect(await revalidatePath('/')).toBe(true)
+		expect(first.calls).toBe(0)
+		expect(second.calls).toBe(1)
+
+		revalidator.unregister()
+		expect(await revalidatePath('/')).toBe(false)
+	})
+})
@@ -0,0 +1,127 @@
+import path from 'node:path'
+import { stat, writeFile, rename } from 'node:fs/promises'
+import { staticBody } from './processRoutes.ts'
+import { redirectLocation } from './request.ts'
+import { sha } from '../utility/crypto.ts'
+import type { PrerenderManifest } from './processRoutes.ts'
+
+type RevalidatorArgs = {
+	manifest: PrerenderManifest
+	// the static output directory
+	dir: string
+	// renders a prerendered page again, resolving to null if it can't be rendered
+	render: (path: string) => Promise<Response | null>
+}
+
+type Revalidator = {
+	revalidate: (url: string) => Promise<boolean>
+	revalidateIfStale: (url: string) => Promise<void>
+	unregister: () => void
+}
+
+declare global {
+	// revalidators for each static output directory, so `revalidatePath` can regenerate pages from anywhere.
+	// Shared on `globalThis`, as each package entry is bundled with its own copy of this module
+	var __ssrToolsRevalidators: Map<string, Revalidator> | undefined
+}
+
+const revalidators = globalThis.__ssrToolsRevalidators ??= new Map<string, Revalidator>()
+
+/**
+ * Regenerates prerendered pages, and writes them back to the static output directory.
+ * Updates the page's etag in `manifest`, so the new page is served straight away
+ */
+export function createRevalidator({ manifest, dir, render }: RevalidatorArgs): Revalidator {
+
+	// when each page was last generated, starting from the file's modified time
+	const generated = new Map<string, number>()
+
+	// regenerations in progress, so each page is only rendered once at a time
+	const pending = new Map<string, Promise<boolean>>()
+
+	async function regenerate(url: string): Promise<boolean> {
+		const page = manifest.pages[url]
+		if (!page) return false
+
+		const response = await render(url)
+		if (!response) return false
+
+		// keep the previous page if the route now errors
+		const location = redirectLocation(response)
+		if (!response.ok && !location) return false
+
+		const body = await staticBody(response)
+		const file = path.join(dir, page.file)
+
+		// write to a temporary file first, so a partially written page is never served
+		const temp = `${file}.${process.pid}.tmp`
+		await writeFile(temp, body)
+		await rename(temp, file)
+
+		page.etag = `"${sha(Buffer.from(body), 16)}"`
+		if (location) {
+			page.status = response.status
+			page.location = location
+		} else {
+			delete page.status
+			delete page.location
+		}
+		generated.set(url, Date.now())
+		return true
+	}
+
+	async function isStale(url: string): Promise<boolean> {
+		const page = manifest.pages[url]
+		if (!page?.revalidate) return false
+		let time = generated.get(url)
+		if (time === undefined) {
+			time = (await stat(path.join(dir, page.file))).mtimeMs
+			generated.set(url, time)
+		}
+		return Date.now() - time > page.revalidate * 1000
+	}
+
+	const revalidator: Revalidator = {
+		/**
+		 * Regenerates the page for `url`, resolves to false if
+		 * the page isn't prerendered, or can't be rendered
+		 */
+		revalidate(url: string): Promise<boolean> {
+			const existing = pending.get(url)
+			if (existing) return existing
+			const regenerating = regenerate(url).finally(() => pending.delete(url))
+			pending.set(url, regenerating)
+			return regenerating
+		},
+		/**
+		 * Regenerates the page in the background when it's older than its route's `revalidate` export
+		 */
+		async revalidateIfStale(url: string) {
+			if (await isStale(url)) await revalidator.revalidate(url)
+		},
+		/**
+		 * Stops `revalidatePath` from regenerating pages with this revalidator
+		 */
+		unregister() {
+			if (revalidators.get(key) === revalidator) revalidators.delete(key)
+		},
+	}
+
+	// a new handler for the same directory replaces the previous one (e.g. when it's recreated in dev)
+	const key = path.resolve(dir)
+	revalidators.get(key)?.unregister()
+	revalidators.set(key, revalidator)
+	return revalidator
+}
+
+/**
+ * Regenerates a prerendered page on demand, e.g. from a CMS webhook.
+ * Resolves to true if the page was regenerated
+ * ```ts
+ * await revalidatePath('/blog/hello-world')
+ * ```
+ */
+export async function revalidatePath(url: string): Promise<boolean> {
+	const results = await Promise.all([...revalidators.values()].map(revalidator => revalidator.revalidate(url)))
+	return results.includes(true)
+}
@@ -0,0 +1,145 @@
+import os from 'node:os'
+import path from 'node:path'
+import { mkdtemp, writeFile, rm } from 'node:fs/promises'
+import { buildRoutes } from './routes.ts'
+import { createRouteManifest, loadRouteManifest, prerenderManifestFileName } from './routeManifest.ts'
+import { fileRouterMiddleware } from './middleware.ts'
+import type { RouteAssets } from './assets.ts'
+
+const srcDir = '/src/pages'
+const serverDir = '/dist/server'
+
+const files = [
+	'/_layout.tsx',
+	'/_error.tsx',
+	'/blog/_layout.tsx',
+	'/blog/_404.tsx',
+	'/blog/[slug=slug].tsx',
+	'/index.tsx',
+]
+
+// routes with built modules, named after the source file
+const routes = buildRoutes({ 
+	dir: srcDir, 
+	files: files.map(file => srcDir + file),
+	setImport: file => file.replace(srcDir, serverDir + '/routes').replace(/\.tsx$/, '.mjs')
+})
+
+const assets: Record<string, RouteAssets> = {
+	'/_layout.tsx': { stylesheets: ['/assets/layout.css'], scripts: ['/assets/layout.js'], modulepreloads: [], preloads: ['/assets/font.woff2'] },
+	'/blog/[slug=slug].tsx': { stylesheets: ['/assets/post.css'], scripts: ['/assets/post.js'], modulepreloads: ['/assets/layout.js', '/assets/chunk.js'], preloads: [] },
+}
+
+const noAssets = { stylesheets: [], scripts: [], modulepreloads: [], preloads: [] }
+
+const options = {
+	dir: serverDir,
+	routeAssets: (route: { name: string }) => assets[route.name] || noAssets,
+	staticDir: '../html',
+	base: '/',
+	assetsDir: 'assets',
+	assetsUrl: '/assets',
+	publicDir: 'public',
+	stylesheets: ['/assets/global.css'],
+	stream: false,
+	prerender: true,
+	removeTrailingSlash: true,
+	preloadHeaders: false as const,
+}
+
+describe('route manifest', () => {
+
+	const manifest = createRouteManifest({ routes, ...options })
+
+	test('lists each route with its built module, relative to the manifest', () => {
+		expect(manifest.routes.map(route => [route.name, route.module])).toEqual([
+			['/index.tsx', 'routes/index.mjs'],
+			['/blog/[slug=slug].tsx', 'routes/blog/[slug=slug].mjs'],
+			['/_error.tsx', 'routes/_error.mjs'],
+			['/blog/_404.tsx', 'routes/blog/_404.mjs'],
+			['/_layout.tsx', 'routes/_layout.mjs'],
+			['/blog/_layout.tsx', 'routes/blog/_layout.mjs'],
+		])
+	})
+
+	test('lists the error, not found and layout routes of pages', () => {
+		expect(manifest.routes.find(route => route.name === '/blog/[slug=slug].tsx')).toMatchObject({
+			routepath: '/blog/:slug',
+			error: '/_error.tsx',
+			notFound: '/blog/_404.tsx',
+			layouts: ['/_layout.tsx', '/blog/_layout.tsx'],
+		})
+	})
+
+	test('pages include the assets of their layouts', () => {
+		expect(manifest.routes.find(route => route.name === '/blog/[slug=slug].tsx')?.assets).toEqual({
+			stylesheets: ['/assets/post.css', '/assets/layout.css'],
+			scripts: ['/assets/post.js', '/assets/layout.js'],
+			// the layout's script is already loaded
+			modulepreloads: ['/assets/chunk.js'],
+			preloads: ['/assets/font.woff2'],
+		})
+	})
+})
+
+describe('loading the route manifest', () => {
+
+	let dir: string
+
+	beforeAll(async () => {
+		dir = await mkdtemp(path.join(os.tmpdir(), 'route-manifest-'))
+		// the manifest is moved with the build output
+		const manifest = createRouteManifest({ routes, ...options })
+		await writeFile(path.join(dir, 'routes.json'), JSON.stringify(manifest))
+	})
+
+	afterAll(async () => {
+		await rm(dir, { recursive: true, force: true })
+	})
+
+	test('builds routes that import the built modules', async () => {
+		const loaded = await loadRouteManifest(path.join(dir, 'routes.json'))
+		const matched = loaded.routes.matchRoute('/blog/hello-world')
+		expect(matched).toMatchObject({ 
+			route: { name: '/blog/[slug=slug].tsx', module: path.join(dir, 'routes/blog/[slug=slug].mjs') },
+			params: { slug: 'hello-world' }
+		})
+		if (!matched) return
+		expect(matched.route.layouts.map(layout => layout.module)).toEqual([
+			path.join(dir, 'routes/_layout.mjs'),
+			path.join(dir, 'routes/blog/_layout.mjs'),
+		])
+		expect(loaded.routes.findNotFoundRoute('/blog/a/b')?.module).toBe(path.join(dir, 'routes/blog/_404.mjs'))
+	})
+
+	test('resolves directories relative to the manifest', async () => {
+		const loaded = await loadRouteManifest(path.join(dir, 'routes.json'))
+		expect(loaded.staticDir).toBe(path.join(dir, '../html'))
+		expect(loaded.assetsDir).toBe(path.join(dir, 'assets'))
+		expect(loaded.publicDir).toBe(path.join(dir, 'public'))
+		expect(loaded.assets['/_layout.tsx']).toEqual(assets['/_layout.tsx'])
+	})
+
+	test('renders everything on demand without prerendered pages', async () => {
+		const loaded = await loadRouteManifest(path.join(dir, 'routes.json'))
+		expect(loaded.prerendered).toEqual({ routes: [], pages: {} })
+
+		const prerendered = { routes: ['/index.tsx'], pages: {} }
+		await writeFile(path.join(dir, prerenderManifestFileName), JSON.stringify(prerendered))
+		expect((await loadRouteManifest(path.join(dir, 'routes.json'))).prerendered).toEqual(prerendered)
+	})
+
+	test('uses custom param matchers', async () => {
+		const loaded = await loadRouteManifest(path.join(dir, 'routes.json'), { slug: /^[a-z]+$/ })
+		expect(loaded.routes.matchRoute('/blog/hello-world')).toBe(false)
+		expect(loaded.routes.matchRoute('/blog/hello')).toMatchObject({ params: { slug: 'hello' } })
+	})
+})
+
+describe('fileRouterMiddleware', () => {
+
+	test('throws when passed a vite config path', async () => {
+		// @ts-expect-error: the middleware used to take a config path
+		await expect(fileRouterMiddleware('vite.config.ts')).rejects.toThrow(TypeError)
+	})
+})
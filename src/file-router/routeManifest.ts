@@ -0,0 +1,153 @@
+import path from 'node:path'
+import { readFile } from 'node:fs/promises'
+import { buildRoutes } from './routes.ts'
+import type { Routes, Route, ErrorRoute, LayoutRoute } from './routes.ts'
+import type { PrerenderManifest } from './processRoutes.ts'
+import type { RouteAssets, PreloadHeaders } from './assets.ts'
+import type { ParamMatchers } from './matchers.ts'
+
+// written to the server output directory at build time
+export const routeManifestFileName = 'routes.json'
+export const prerenderManifestFileName = 'prerendered.json'
+
+// routes are matched from their names, relative to a virtual router directory
+const manifestRouterDir = '/pages'
+
+/**
+ * A route file and its built module, e.g. `/blog/[slug].tsx`
+ */
+export type RouteManifestEntry = {
+	// route file, relative to the router directory
+	name: string
+	// built module, relative to the manifest
+	module: string
+	// asset urls for the route, and its layouts
+	assets: RouteAssets
+	// url pattern, for pages
+	routepath?: string
+	// names of the route's error, not found and layout routes
+	error?: string
+	notFound?: string
+	layouts?: string[]
+}
+
+/**
+ * Build-time route manifest, so routes can be served without vite or the source tree.
+ * Paths are relative to the manifest file
+ */
+export type RouteManifest = {
+	// pages, then `_error`, `_404` and `_layout` routes
+	routes: RouteManifestEntry[]
+	// the static output directory, with prerendered pages
+	staticDir: string
+	// url path the site is served from, e.g. `/app/`
+	base: string
+	// built assets, served from `assetsUrl`
+	assetsDir: string
+	assetsUrl: string
+	publicDir: string | null
+	// asset urls added to every page
+	stylesheets: string[]
+	stream: boolean
+	prerender: boolean
+	removeTrailingSlash: boolean
+	preloadHeaders: PreloadHeaders
+}
+
+type CreateRouteManifestArgs = Omit<RouteManifest, 'routes'> & {
+	routes: Routes
+	// the manifest's directory, to make built module paths relative
+	dir: string
+	// assets imported by a route module
+	routeAssets: (route: Route | ErrorRoute | LayoutRoute) => RouteAssets
+}
+
+/**
+ * Describes built routes, with each `route.module` set to its built module
+ */
+export function createRouteManifest({ routes, dir, routeAssets, ...rest }: CreateRouteManifestArgs): RouteManifest {
+
+	const entry = (route: Route | ErrorRoute | LayoutRoute): RouteManifestEntry => ({
+		name: route.name,
+		module: path.relative(dir, route.module),
+		assets: routeAssets(route)
+	})
+
+	const pages = routes.routes.map(route => ({
+		...entry(route),
+		// pages also get the assets of their layouts
+		assets: mergeAssets([route, ...route.layouts].map(routeAssets)),
+		routepath: route.routepath,
+		error: route.error?.name,
+		notFound: route.notFound?.name,
+		layouts: route.layouts.map(layout => layout.name)
+	}))
+
+	const dirRoutes = [
+		...routes.errorRoutes,
+		...routes.notFoundRoutes,
+		...routes.layoutRoutes
+	].map(entry)
+
+	return { routes: [...pages, ...dirRoutes], ...rest }
+}
+
+function mergeAssets(assets: RouteAssets[]): RouteAssets {
+	const scripts = new Set(assets.flatMap(asset => asset.scripts))
+	return {
+		stylesheets: [...new Set(assets.flatMap(asset => asset.stylesheets))],
+		scripts: [...scripts],
+		// a layout's script can be a chunk of the route's script, and is already loaded
+		modulepreloads: [...new Set(assets.flatMap(asset => asset.modulepreloads))].filter(href => !scripts.has(href)),
+		preloads: [...new Set(assets.flatMap(asset => asset.preloads))]
+	}
+}
+
+type LoadedRouteManifest = {
+	manifest: RouteManifest
+	routes: Routes
+	prerendered: PrerenderManifest
+	// assets for each route, by route name
+	assets: Record<string, RouteAssets>
+	// absolute paths from the manifest
+	staticDir: string
+	assetsDir: string
+	publicDir: string | null
+}
+
+/**
+ * Reads the route manifest, and builds routes that import the built modules.
+ * Param matchers aren't serialisable, so pass the same `matchers` as the `fileRouter()` options
+ */
+export async function loadRouteManifest(file: string, matchers?: ParamMatchers): Promise<LoadedRouteManifest> {
+
+	const manifestFile = path.resolve(file)
+	const dir = path.dirname(manifestFile)
+	const manifest: RouteManifest = JSON.parse(await readFile(manifestFile, 'utf8'))
+
+	const modules = new Map(manifest.routes.map(route => [
+		path.join(manifestRouterDir, route.name),
+		path.join(dir, route.module)
+	]))
+	const routes = buildRoutes({
+		dir: manifestRouterDir,
+		files: [...modules.keys()],
+		matchers,
+		setImport: file => modules.get(file)
+	})
+
+	const prerendered: PrerenderManifest = await readFile(path.join(dir, prerenderManifestFileName), 'utf8')
+		.then(json => JSON.parse(json))
+		// everything is rendered on demand if there aren't any prerendered pages
+		.catch(() => ({ routes: [], pages: {} }))
+
+	return {
+		manifest,
+		routes,
+		prerendered,
+		assets: Object.fromEntries(manifest.routes.map(route => [route.name, route.assets])),
+		staticDir: path.join(dir, manifest.staticDir),
+		assetsDir: path.join(dir, manifest.assetsDir),
+		publicDir: manifest.publicDir === null ? null : path.join(dir, manifest.publicDir)
+	}
+}
@@ -0,0 +1,115 @@
+import { buildRoutes } from './routes.ts'
+import { MultiError } from './../utility/MultiError.ts'
+
+const dir = '/pages'
+
+function routesFrom(files: string[]) {
+	return buildRoutes({ dir, files: files.map(file => dir + file) })
+}
+
+function buildErrors(files: string[]): string[] {
+	try {
+		routesFrom(files)
+	} catch (e) {
+		if (!(e instanceof MultiError)) throw e
+		return e.getErrors().map(error => error.message)
+	}
+	return []
+}
+
+describe('route groups', () => {
+
+	test('groups don\'t change the url', () => {
+		const routes = routesFrom(['/(marketing)/pricing.ts', '/(shop)/cart/index.ts'])
+		expect(routes.matchRoute('/pricing')).toMatchObject({ route: { name: '/(marketing)/pricing.ts' } })
+		expect(routes.matchRoute('/cart')).toMatchObject({ route: { name: '/(shop)/cart/index.ts' } })
+		expect(routes.matchRoute('/marketing/pricing')).toBe(false)
+	})
+
+	test('routes in different groups can\'t match the same url', () => {
+		expect(buildErrors(['/about.ts', '/(marketing)/about.ts'])).toEqual([
+			'Routes "/about.ts" and "/(marketing)/about.ts" both match "/about"'
+		])
+	})
+})
+
+describe('optional catch-alls', () => {
+
+	test('match with and without segments', () => {
+		const routes = routesFrom(['/shop/[[...filters]].ts'])
+		expect(routes.matchRoute('/shop')).toMatchObject({ params: { filters: [] } })
+		expect(routes.matchRoute('/shop/red/large')).toMatchObject({ params: { filters: ['red', 'large'] } })
+	})
+
+	test('overlap with catch-alls and the bare path', () => {
+		expect(buildErrors(['/docs/[[...path]].ts', '/docs/[...slug].ts'])).toHaveLength(1)
+		expect(buildErrors(['/docs/[[...path]].ts', '/docs.ts'])).toHaveLength(1)
+		expect(buildErrors(['/docs/[[...path]].ts', '/docs/[slug].ts'])).toEqual([])
+	})
+})
+
+describe('param matchers', () => {
+
+	test('parse matched params', () => {
+		const routes = routesFrom(['/posts/[id=int].ts'])
+		expect(routes.matchRoute('/posts/12')).toMatchObject({ params: { id: 12 } })
+		expect(routes.matchRoute('/posts/hello')).toBe(false)
+	})
+
+	test('use custom matchers', () => {
+		const routes = buildRoutes({
+			dir,
+			files: [dir + '/[lang=lang].ts'],
+			matchers: { lang: /^(en|fr)$/ },
+		})
+		expect(routes.matchRoute('/en')).toMatchObject({ params: { lang: 'en' } })
+		expect(routes.matchRoute('/de')).toBe(false)
+	})
+
+	test('global and sticky RegExps match every time', () => {
+		const routes = buildRoutes({
+			dir,
+			files: [dir + '/[lang=lang].ts', dir + '/codes/[code=code].ts'],
+			matchers: { lang: /^(en|fr)$/g, code: /[a-z]{3}/y },
+		})
+		expect(routes.matchRoute('/en')).toMatchObject({ params: { lang: 'en' } })
+		expect(routes.matchRoute('/en')).toMatchObject({ params: { lang: 'en' } })
+		expect(routes.matchRoute('/codes/abc')).toMatchObject({ params: { code: 'abc' } })
+		expect(routes.matchRoute('/codes/abc')).toMatchObject({ params: { code: 'abc' } })
+	})
+
+	test('unknown matchers and matchers on catch-alls are reported together', () => {
+		const errors = buildErrors(['/[id=nope].ts', '/docs/[...path=int].ts', '/about.ts'])
+		expect(errors).toHaveLength(2)
+		expect(errors[0]).toMatch('Unknown param matcher "nope"')
+		expect(errors[1]).toMatch('Param matchers can only be used on single params')
+	})
+})
+
+describe('conflicting routes', () => {
+
+	test('params with different names match the same urls', () => {
+		expect(buildErrors(['/blog/[slug].ts', '/blog/[id].ts'])).toEqual([
+			'Routes "/blog/[slug].ts" and "/blog/[id].ts" match the same urls ("/blog/:slug" and "/blog/:id")'
+		])
+	})
+
+	test('params with matchers don\'t conflict with plain params', () => {
+		expect(buildErrors(['/posts/[id=int].ts', '/posts/[slug].ts'])).toEqual([])
+	})
+
+	test('params with matchers conflict with each other', () => {
+		expect(buildErrors(['/posts/[id=int].ts', '/posts/[page=int].ts'])).toHaveLength(1)
+		expect(buildErrors(['/posts/[x=int].ts', '/posts/[y=slug].ts'])).toEqual([
+			'Routes "/posts/[x=int].ts" and "/posts/[y=slug].ts" match the same urls ("/posts/:x" and "/posts/:y")'
+		])
+	})
+
+	test('static segments don\'t conflict with params', () => {
+		expect(buildErrors(['/blog/new.ts', '/blog/[slug].ts', '/[...all].ts'])).toEqual([])
+	})
+
+	test('all conflicts are reported together', () => {
+		expect(buildErrors(['/a/[x].ts', '/a/[y].ts', '/b/[x].ts', '/b/[y].ts'])).toHaveLength(2)
+	})
+})
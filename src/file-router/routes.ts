@@ -1,11 +1,16 @@
 import { join } from 'node:path'
 import globToRegexp from 'glob-to-regexp'
 import { pathToRegexp, match } from 'path-to-regexp'
+import { builtInMatchers, statelessMatchers } from './matchers.ts'
+import { MultiError } from './../utility/MultiError.ts'
+import { createRouteTrie } from './trie.ts'
+import type { ParamMatchers } from './matchers.ts'
 import type { Prettify } from './../utility/types.ts'
 
 const paramTypes = Object.freeze({
 	SINGLE: 'single',
 	MULTIPLE: 'multiple',
+	OPTIONAL: 'optional',
 })
 
 const routeComplexity = Object.freeze({
@@ -22,19 +27,26 @@ export type Route = {
 	routepath: string
 	segments: string[]
 	requiredParams: Record<string, Values<typeof paramTypes>>
+	paramMatchers: ParamMatchers
 	type: Values<typeof routeComplexity>
 	order: number,
 	match: MatchFn
 	requestDataFromParams: RouteRequestDataFn
 	regexp?: RegExp
 	error: ErrorRoute | undefined
+	notFound: ErrorRoute | undefined
+	layouts: LayoutRoute[]
 }
 
-export type ErrorRoute = Omit<Route, 'error'> & {
+// special files that apply to a directory (e.g. `_error`, `_404` and `_layout`)
+type DirRoute = Omit<Route, 'error' | 'notFound' | 'layouts'> & {
 	dir: string
 }
 
-export type ParamData = Record<string, string | string[]>
+export type ErrorRoute = DirRoute
+export type LayoutRoute = DirRoute
+
+export type ParamData = Record<string, string | number | string[]>
 
 export type RouteRequestData = {
 	path: string
@@ -50,22 +62,34 @@ export type MatchedRoute = {
 	params: ParamData
 }
 
+export type Routes = ReturnType<typeof buildRoutes>
+
 export type BuildRoutesArgs = {
     files: string[]
     dir: string
     setImport?: SetImportFn
+    matchers?: ParamMatchers
 }
 
 
 // match only the final extension (to support route.foo.tsx -> route.foo)
 const extensionMatch = /\.[^\.]+$/
 
-// match any `[slug]` or '[...slug]' param segments 
+// match any `[slug]`, '[...slug]' or '[[...slug]]' param segments 
 const paramSegmentMatch = /\[.+\]/
 
 // matches '[...slug]' url part
 const catchAllSectionMatch = /^\[\.{3}.+\]/
 
+// matches '[[...slug]]' url part, which also matches zero segments
+const optionalCatchAllSectionMatch = /^\[\[\.{3}.+\]\]$/
+
+// matches the name in '[param=matcher]' url parts
+const matcherSegmentMatch = /^(.+)=(.+)$/
+
+// matches '(group)' directories, which don't add a url segment
+const groupSegmentMatch = /^\(.+\)$/
+
 // query strings
 const queryMatch = /\?.*$/
 
@@ -73,14 +97,21 @@ const queryMatch = /\?.*$/
 /**
  * build a list of routes to match against URLs.
  * To test the built routes against live URLs use `routes.matchRoute(path, routes)`
+ * Throws a MultiError if any routes are invalid (e.g. unknown param matchers),
+ * or match the same URLs
  */
-export function buildRoutes({ files, dir, setImport }: BuildRoutesArgs) {
+export function buildRoutes({ files, dir, setImport, matchers = {} }: BuildRoutesArgs) {
     
     if (!dir.startsWith('/'))
     	throw new Error(`'dir' must be an absolute path`)
 
+    const allMatchers = statelessMatchers({ ...builtInMatchers, ...matchers })
+
+    const invalid = new MultiError('invalid routes')
     const routes: Route[] = []
     const errorRoutes: ErrorRoute[] = []
+    const layoutRoutes: LayoutRoute[] = []
+    const notFoundRoutes: ErrorRoute[] = []
 
     // removes $ from end of page directory regex, e.g:
     // from: /^\/abs\/path\/to\/pages$/ 
@@ -98,36 +129,65 @@ export function buildRoutes({ files, dir, setImport }: BuildRoutesArgs) {
         const filepath = filepathExt.replace(extensionMatch, '')
         const segments = filepath.split('/').slice(1)
 
-        const isErrorRoute = (segments[segments.length - 1] === '_error')
-        if (isErrorRoute) {
-        	errorRoutes.push(createErrorRoute(filepathExt, absPath, segments))
+        // collect invalid routes, so they're all reported at once
+        try {
+	        const isErrorRoute = (segments[segments.length - 1] === '_error')
+	        if (isErrorRoute) {
+	        	errorRoutes.push(createDirRoute(filepathExt, absPath, segments, allMatchers))
+	        }
+
+	        const isNotFoundRoute = (segments[segments.length - 1] === '_404')
+	        if (isNotFoundRoute) {
+	        	notFoundRoutes.push(createDirRoute(filepathExt, absPath, segments, allMatchers))
+	        }
+
+	        const isLayoutRoute = (segments[segments.length - 1] === '_layout')
+	        if (isLayoutRoute) {
+	        	layoutRoutes.push(createDirRoute(filepathExt, absPath, segments, allMatchers))
+	        }
+
+	        // ignore files and folders starting with an underscore
+	        // to allow non-route files to exist in the folder structure
+	        // (e.g. layouts and shared js resources)
+	        const ignore = segments.find(part => part.startsWith('_'))
+	        if (ignore) continue
+
+	        routes.push(createRoute(filepathExt, absPath, segments, allMatchers))
+        } catch (e) {
+        	invalid.add(e as Error)
         }
-
-        // ignore files and folders starting with an underscore
-        // to allow non-route files to exist in the folder structure
-        // (e.g. layouts and shared js resources)
-        const ignore = segments.find(part => part.startsWith('_'))
-        if (ignore) continue
-
-        routes.push(createRoute(filepathExt, absPath, segments))
     }
+    if (invalid.length) throw invalid
     
-    // add error property to routes, using default error handler
+    // add error properties to routes, using the nearest error page in any parent directory
     const defaultError = findErrorRoute(errorRoutes, ['index'])
     for (const route of routes) {
-    	route.error = findErrorRoute(errorRoutes, route.segments) || defaultError
+    	route.error = findErrorRoute(errorRoutes, route.segments)
+    	route.notFound = findErrorRoute(notFoundRoutes, route.segments)
+    	route.layouts = findLayoutRoutes(layoutRoutes, route.segments)
+    }
+
+    const conflicts = findConflicts(routes)
+    if (conflicts.length) {
+    	const errors = new MultiError('conflicting routes')
+    	for (const conflict of conflicts) errors.add(conflict)
+    	throw errors
     }
 
     routes.sort((a, b) => Math.sign(a.order - b.order))
 
     const routesByFile: Record<string, Route> = {}
+    const trie = createRouteTrie()
     for (const route of routes) {
     	routesByFile[route.module] = route
+    	trie.insert(route)
     }
 
     return {
     	routes,
     	errorRoutes,
+    	layoutRoutes,
+    	notFoundRoutes,
     	defaultError,
     	matchRoute: function (path: string, route?: Route): MatchedRoute | false {
 	    	const withoutQuery = path.replace(queryMatch, '')
@@ -138,31 +198,51 @@ export function buildRoutes({ files, dir, setImport }: BuildRoutesArgs) {
 	    			params: matches.params,
 	    		}
 	    	}
-	    	for (const route of routes) {
-	    		const matches = route.match(withoutQuery)
-	    		if (matches) return {
-	    			route, 
-	    			params: matches.params,
-	    		}
+	    	const matched = trie.match(withoutQuery)
+	    	if (matched) return {
+	    		route: matched.route,
+	    		params: matched.matches.params,
 	    	}
 	    	return false
 	    },
+	    /**
+	     * Every route that matches `path`, in the order they should be tried,
+	     * so a route can pass through to the next one
+	     */
+	    matchRoutes: function (path: string): MatchedRoute[] {
+	    	const withoutQuery = path.replace(queryMatch, '')
+	    	return trie.matchAll(withoutQuery).map(matched => ({
+	    		route: matched.route,
+	    		params: matched.matches.params,
+	    	}))
+	    },
 	    findRouteByFile: function(file: string): Route | null {
 	    	return routesByFile[file] || null
 	    },
+	    findErrorRouteByFile: function(file: string): ErrorRoute | undefined {
+	    	return [...errorRoutes, ...notFoundRoutes].find(route => route.module === file)
+	    },
+	    /**
+	     * Finds the page for an unmatched url: 
+	     * the nearest `_404` route, or the nearest `_error` route
+	     */
+	    findNotFoundRoute: function(path: string): ErrorRoute | undefined {
+	    	const withoutQuery = path.replace(queryMatch, '')
+	    	return findNearestDirRoute(notFoundRoutes, withoutQuery, '_404') 
+	    		|| findNearestDirRoute(errorRoutes, withoutQuery, '_error')
+	    },
     }
 }
 
-function createErrorRoute(name: string, absPath: string, segments: string[]): ErrorRoute {
-	const r = createRoute(name, absPath, segments)
-	delete r.error
+function createDirRoute(name: string, absPath: string, segments: string[], matchers: ParamMatchers): DirRoute {
+	const { error, notFound, layouts, ...r } = createRoute(name, absPath, segments, matchers)
 	return {
 		...r,
 		dir: join(...r.segments.slice(0, -1))
 	}
 }
 
-function createRoute(name: string, absPath: string, segments: string[]) {
+function createRoute(name: string, absPath: string, segments: string[], matchers: ParamMatchers) {
 	
 	const route: Route = {
 		name,
@@ -170,30 +250,40 @@ function createRoute(name: string, absPath: string, segments: string[]) {
 	    routepath: '',
 	    segments,
 	    requiredParams: {},
+	    paramMatchers: {},
 	    type: routeComplexity.BASIC,
 	    order: routeComplexity.BASIC,
 	    error: undefined,
+	    notFound: undefined,
+	    layouts: [],
 	    match: () => false,
 	    requestDataFromParams: () => false,
 	}
 
-	for (let i = 0; i < segments.length; i++) {
-		const part = segments[i]
+	// route groups organise files without changing the url
+	const urlSegments = segments.filter(part => !groupSegmentMatch.test(part))
+
+	for (let i = 0; i < urlSegments.length; i++) {
+		const part = urlSegments[i]
 	    const isParamSegment = paramSegmentMatch.test(part)
-	    
+	    const isOptionalSpread = optionalCatchAllSectionMatch.test(part)
+	    const isSpread = isOptionalSpread || catchAllSectionMatch.test(part)
+
 	    // match routes in order of complexity (basic, param, spread)
-	    // also multiply by depth (i) to factor in tree, 
+	    // also multiply by depth (i) to factor in tree,
 	    // making sure spread routes are at the end
 	    const maxDirectoryDepth = 100
 
-	    if (isParamSegment && !part.startsWith('[...')) {
-	    	const order = routeComplexity.PARAMS + (i/-maxDirectoryDepth)
+	    if (isParamSegment && !isSpread) {
+	    	// params with matchers are tried before plain params at the same depth
+	    	const matcherOrder = matcherSegmentMatch.test(part) ? (0.5/-maxDirectoryDepth) : 0
+	    	const order = routeComplexity.PARAMS + (i/-maxDirectoryDepth) + matcherOrder
 	    	if (order > route.order) route.order = order
-	    	if (route.type < routeComplexity.PARAMS) 
+	    	if (route.type < routeComplexity.PARAMS)
 	    		route.type = routeComplexity.PARAMS
 	    }
 
-	    if (part.startsWith('[...')) {
+	    if (isSpread) {
 	    	const order = routeComplexity.SPREAD + (i/-maxDirectoryDepth)
 	    	if (order > route.order) route.order = order
 	    	if (route.type < routeComplexity.SPREAD)
@@ -201,14 +291,29 @@ function createRoute(name: string, absPath: string, segments: string[]) {
 	    }
 
 		// Remove square brackets at the start and end
-	    const normalizedSegment = (isParamSegment
-	        ? part.replace(/^\[(\.{3})?/, '').replace(/\]$/, '')
+	    const strippedSegment = isParamSegment
+	        ? part.replace(/^\[{1,2}(\.{3})?/, '').replace(/\]{1,2}$/, '')
 	        : part
-	    ).toLowerCase()
+	    let normalizedSegment = strippedSegment.toLowerCase()
+
+	    // separate matcher from param name, e.g. `[id=int]`
+	    const matcherParts = isParamSegment && strippedSegment.match(matcherSegmentMatch)
+	    if (matcherParts) {
+	    	const param = matcherParts[1].toLowerCase()
+	    	const matcherName = matcherParts[2]
+	    	if (isSpread) {
+	    		throw new Error(`${name} — Param matchers can only be used on single params, e.g. [${param}=${matcherName}]`)
+	    	}
+	    	if (!(matcherName in matchers)) {
+	    		throw new Error(`${name} — Unknown param matcher "${matcherName}"`)
+	    	}
+	    	normalizedSegment = param
+	    	route.paramMatchers[param] = matchers[matcherName]
+	    }
 
 	    if (!isParamSegment && normalizedSegment === 'index') {
 	    	const first = i === 0
-	    	const last = (i === segments.length - 1)
+	    	const last = (i === urlSegments.length - 1)
 	    	// root index
 	    	if (first) route.routepath += '/'
 	    	// skip index parts at the end
@@ -216,7 +321,10 @@ function createRoute(name: string, absPath: string, segments: string[]) {
 	    }
 	    
 	    if (isParamSegment) {
-	    	if (catchAllSectionMatch.test(part)) {
+	    	if (isOptionalSpread) {
+	    		route.requiredParams[normalizedSegment] = 'optional'
+	    		route.routepath += `{/*${normalizedSegment}}`
+	    	} else if (catchAllSectionMatch.test(part)) {
 	    		route.requiredParams[normalizedSegment] = 'multiple'
 	    		route.routepath += `/*${normalizedSegment}`
 	    	} else {
@@ -228,10 +336,27 @@ function createRoute(name: string, absPath: string, segments: string[]) {
 	    }
 	}
 
-	route.match = match(route.routepath, { 
-		decode: decodeURIComponent 
+	const matcher = match(route.routepath, {
+		decode: decodeURIComponent
 	})
 
+	route.match = (url: string) => {
+		const matches = matcher(url)
+		if (!matches) return false
+		const params = { ...matches.params } as ParamData
+		// optional catch-alls are missing from params when there are no segments
+		for (const param in route.requiredParams) {
+			if (route.requiredParams[param] === 'optional' && !params[param]) params[param] = []
+		}
+		// rejected params fall through to the next matching route
+		for (const [param, paramMatcher] of Object.entries(route.paramMatchers)) {
+			const value = String(params[param])
+			if (!paramMatcher.test(value)) return false
+			if (paramMatcher.parse) params[param] = paramMatcher.parse(value)
+		}
+		return { path: matches.path, params }
+	}
+
 	route.requestDataFromParams = (params: ParamData) => requestDataFromParams(params, route)
 
 	route.regexp = pathToRegexp(route.routepath).regexp
@@ -239,13 +364,80 @@ function createRoute(name: string, absPath: string, segments: string[]) {
 }
 
 
+/**
+ * Finds the error route in the closest parent directory of a route,
+ * e.g. for `blog/[slug]` checks `blog/_error` then `_error`
+ */
 function findErrorRoute(errorRoutes: ErrorRoute[], parts: string[]): ErrorRoute | undefined {
 	const dirParts = parts.slice(0, -1)
 	const dirPath = join(...dirParts)
 	for (const error of errorRoutes) {
 		if (dirPath === error.dir) return error
 	}
-	if (dirParts.length) findErrorRoute(errorRoutes, dirParts)
+	if (dirParts.length) return findErrorRoute(errorRoutes, dirParts)
+}
+
+/**
+ * Finds the directory route for the closest parent url of `path`, 
+ * e.g. for `/blog/post` checks `/blog/post/_404`, `/blog/_404` then `/_404`
+ * (matching against the directory route supports params and route groups)
+ */
+function findNearestDirRoute(dirRoutes: DirRoute[], path: string, name: string): DirRoute | undefined {
+	const parts = path.split('/').filter(Boolean)
+	for (let i = parts.length; i >= 0; i--) {
+		const url = ['', ...parts.slice(0, i), name].join('/')
+		const dirRoute = dirRoutes.find(dirRoute => dirRoute.match(url))
+		if (dirRoute) return dirRoute
+	}
+}
+
+/**
+ * Finds routes that match the same URLs, e.g. `about.tsx` and `about/index.tsx`,
+ * or `[slug].tsx` and `[id].tsx`. A param with a matcher doesn't conflict with a plain param,
+ * as it's tried first, but any two matchers could accept the same value (e.g. `[x=int]` and `[y=slug]`)
+ */
+function findConflicts(routes: Route[]): Error[] {
+	const errors: Error[] = []
+	const seen = new Map<string, Route>()
+	for (const route of routes) {
+		for (const key of conflictKeys(route)) {
+			const existing = seen.get(key)
+			if (!existing) {
+				seen.set(key, route)
+				continue
+			}
+			if (existing === route) continue
+			const paths = existing.routepath === route.routepath
+				? `both match "${route.routepath}"`
+				: `match the same urls ("${existing.routepath}" and "${route.routepath}")`
+			errors.push(new Error(`Routes "${existing.name}" and "${route.name}" ${paths}`))
+		}
+	}
+	return errors
+}
+
+function conflictKeys(route: Route): string[] {
+	// param names don't affect matching, so `/:slug` and `/:id` are the same pattern
+	const key = route.routepath.replace(/(:|\*)([^\/{}]+)/g, (_, type: string, param: string) => {
+		return (param in route.paramMatchers) ? `${type}=` : type
+	})
+	// optional catch-alls also overlap with catch-alls and the bare path
+	if (!key.includes('{/*}')) return [key]
+	return [key, key.replace('{/*}', '/*'), key.replace('{/*}', '') || '/']
+}
+
+/**
+ * Finds layouts in every parent directory of a route, outermost first
+ */
+function findLayoutRoutes(layoutRoutes: LayoutRoute[], parts: string[]): LayoutRoute[] {
+	const dirParts = parts.slice(0, -1)
+	const layouts: LayoutRoute[] = []
+	for (let i = 0; i <= dirParts.length; i++) {
+		const dirPath = join(...dirParts.slice(0, i))
+		const layout = layoutRoutes.find(layout => layout.dir === dirPath)
+		if (layout) layouts.push(layout)
+	}
+	return layouts
 }
 
 export function isBasic(route: Route) {
@@ -285,14 +477,16 @@ function requestDataFromParams(params: ParamData, route: Route): never | RouteRe
 
 	for (const param in route.requiredParams) {
 		const type = route.requiredParams[param]
-		const value = params[param]
+		const isOptional = type === 'optional'
+		// optional catch-alls can be left out to build the bare path
+		const value = (isOptional && params[param] === undefined) ? [] : params[param]
 
-		if (!(param in params)) {
+		if (!(param in params) && !isOptional) {
 			errors[`"${param}" not found`] = true
 			continue
 		}
 
-		if (type === 'multiple') {
+		if (type === 'multiple' || isOptional) {
 			const isStringArray = Array.isArray(value) && value.every(x => typeof x === 'string')
 			if (!isStringArray) {
 				errors[`"${param}" must be an array of strings`] = true
@@ -308,25 +502,42 @@ function requestDataFromParams(params: ParamData, route: Route): never | RouteRe
 				] = true
 				continue
 			}
-			reifiedPath = reifiedPath.replace(`*${param}`, value.join('/'))
+			if (isOptional) {
+				const segments = value.length ? `/${value.join('/')}` : ''
+				reifiedPath = reifiedPath.replace(`{/*${param}}`, segments)
+			} else {
+				reifiedPath = reifiedPath.replace(`*${param}`, value.join('/'))
+			}
 
 		} else if (type === 'single') {
-			 if (typeof value !== 'string') {
+			const paramMatcher = route.paramMatchers[param]
+
+			// params with matchers accept their coerced values, e.g. numbers for `[id=int]`
+			const singleValue = (paramMatcher && typeof value === 'number') ? String(value) : value
+
+			 if (typeof singleValue !== 'string') {
 				errors[`"${param}" must be a string`] = true
 				continue
 			}
 
-			const disallowedChars = segmentDisallowedChars(value)
+			if (paramMatcher && !paramMatcher.test(singleValue)) {
+				errors[`"${param}" is not valid for the param matcher: "${singleValue}"`] = true
+				continue
+			}
+
+			const disallowedChars = segmentDisallowedChars(singleValue)
 			if (disallowedChars.length) {
 				const s = disallowedChars.length === 1 ? '' : 's'
 				const chars = '"' + disallowedChars.join(', ') + '"'
 				errors[
 					`Segment for "${param}" includes disallowed character${s} ${chars} in url params: ` +
-					`["${value}"]`
+					`["${singleValue}"]`
 				] = true
 				continue
 			}
-			reifiedPath = reifiedPath.replace(`:${param}`, value)
+			reifiedPath = reifiedPath.replace(`:${param}`, singleValue)
+			outputParams[param] = paramMatcher?.parse ? paramMatcher.parse(singleValue) : singleValue
+			continue
 		}
 
 		outputParams[param] = value
@@ -338,7 +549,8 @@ function requestDataFromParams(params: ParamData, route: Route): never | RouteRe
 	}
 
 	return {
-		path: reifiedPath,
+		// a root optional catch-all without segments
+		path: reifiedPath || '/',
 		params: outputParams
 	}
 }
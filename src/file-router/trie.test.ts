@@ -0,0 +1,110 @@
+import { buildRoutes } from './routes.ts'
+
+const dir = '/pages'
+
+function routesFrom(files: string[]) {
+	return buildRoutes({ dir, files: files.map(file => dir + file) })
+}
+
+// every route that matches, checking every route in order
+function matchInOrder(routes: ReturnType<typeof routesFrom>, path: string) {
+	return routes.routes.filter(route => route.match(path)).map(route => route.name)
+}
+
+const files = [
+	'/index.ts',
+	'/about.ts',
+	'/blog/index.ts',
+	'/blog/new.ts',
+	'/blog/[slug].ts',
+	'/blog/[slug]/comments.ts',
+	'/blog/[year]/[slug].ts',
+	'/docs/[...path].ts',
+	'/docs/intro.ts',
+	'/shop/[[...filters]].ts',
+	'/[page].ts',
+	'/[...all].ts',
+	'/(marketing)/pricing.ts',
+]
+
+const paths = [
+	'/',
+	'/about',
+	'/about/',
+	'/ABOUT',
+	'/blog',
+	'/blog/new',
+	'/blog/hello',
+	'/blog/hello/comments',
+	'/blog/2024/hello',
+	'/blog/2024/hello/extra',
+	'/docs',
+	'/docs/intro',
+	'/docs/a/b/c',
+	'/shop',
+	'/shop/red/large',
+	'/pricing',
+	'/anything',
+	'/deeply/nested/url',
+]
+
+describe('route trie', () => {
+
+	const routes = routesFrom(files)
+
+	test.each(paths)('matches the same routes as checking every route in order: %s', path => {
+		expect(routes.matchRoutes(path).map(matched => matched.route.name)).toEqual(matchInOrder(routes, path))
+	})
+
+	test('matches the first route in order', () => {
+		expect(routes.matchRoute('/blog/new')).toMatchObject({ route: { name: '/blog/new.ts' } })
+		expect(routes.matchRoute('/blog/hello')).toMatchObject({ 
+			route: { name: '/blog/[slug].ts' }, 
+			params: { slug: 'hello' } 
+		})
+		expect(routes.matchRoute('/docs/a/b')).toMatchObject({ 
+			route: { name: '/docs/[...path].ts' },
+			params: { path: ['a', 'b'] }
+		})
+		expect(routes.matchRoute('/shop/red')).toMatchObject({ 
+			route: { name: '/shop/[[...filters]].ts' },
+			params: { filters: ['red'] }
+		})
+	})
+
+	test('tries static routes, then params, then catch-alls', () => {
+		expect(routes.matchRoutes('/about').map(matched => matched.route.name)).toEqual([
+			'/about.ts',
+			'/[page].ts',
+			'/[...all].ts',
+		])
+	})
+
+	test('tries deeper catch-alls first', () => {
+		expect(routes.matchRoutes('/docs/a/b').map(matched => matched.route.name)).toEqual([
+			'/docs/[...path].ts',
+			'/[...all].ts',
+		])
+	})
+
+	test('matches optional catch-alls without any segments', () => {
+		const routes = routesFrom(['/shop/[[...filters]].ts'])
+		expect(routes.matchRoute('/shop')).toMatchObject({ 
+			route: { name: '/shop/[[...filters]].ts' },
+			params: { filters: [] }
+		})
+	})
+
+	test('ignores the query string', () => {
+		expect(routes.matchRoute('/about?ref=home')).toMatchObject({ route: { name: '/about.ts' } })
+	})
+
+	test('skips routes with rejected params', () => {
+		const routes = routesFrom(['/posts/[id=int].ts', '/posts/[slug].ts'])
+		expect(routes.matchRoute('/posts/12')).toMatchObject({ 
+			route: { name: '/posts/[id=int].ts' }, 
+			params: { id: 12 } 
+		})
+		expect(routes.matchRoute('/posts/hello')).toMatchObject({ route: { name: '/posts/[slug].ts' } })
+	})
+})
@@ -0,0 +1,108 @@
+import type { Route, RouteRequestData } from './routes.ts'
+
+type TrieNode = {
+	// routes that end at this node
+	routes: Route[]
+	// catch-all routes, matching one or more of the remaining segments
+	spread: Route[]
+	// optional catch-all routes, matching zero or more of the remaining segments
+	optionalSpread: Route[]
+	static: Map<string, TrieNode>
+	param: TrieNode | undefined
+}
+
+export type RouteTrie = ReturnType<typeof createRouteTrie>
+
+type TrieMatch = { route: Route, matches: RouteRequestData }
+
+// splits a routepath into its url parts, e.g. '/docs/:id{/*slug}' -> ['/docs', '/:id', '{/*slug}']
+const routepathPartMatch = /\{\/\*[^}]+\}|\/[^\/{]*/g
+
+function createNode(): TrieNode {
+	return {
+		routes: [],
+		spread: [],
+		optionalSpread: [],
+		static: new Map(),
+		param: undefined,
+	}
+}
+
+/**
+ * Route matcher that narrows the routes to check by url segment,
+ * so matching doesn't depend on the number of routes.
+ * Candidates are checked with `route.match` in route order (static, param, spread, deepest first),
+ * so the result is the same as checking every route in order
+ */
+export function createRouteTrie() {
+
+	const root = createNode()
+	// insertion order, to keep the original order of routes with the same `route.order`
+	const sequence = new Map<Route, number>()
+	let count = 0
+
+	// finds the node and list a route belongs to, creating nodes when necessary
+	function routeList(route: Route): Route[] {
+		let node = root
+		for (const part of route.routepath.match(routepathPartMatch) || []) {
+			if (part.startsWith('{/*')) return node.optionalSpread
+			if (part.startsWith('/*')) return node.spread
+			if (part.startsWith('/:')) {
+				node = node.param ||= createNode()
+				continue
+			}
+			const segment = part.slice(1)
+			let child = node.static.get(segment)
+			if (!child) node.static.set(segment, child = createNode())
+			node = child
+		}
+		return node.routes
+	}
+
+	function collect(node: TrieNode, segments: string[], i: number, candidates: Route[]) {
+		candidates.push(...node.optionalSpread)
+		if (i === segments.length) {
+			candidates.push(...node.routes)
+			return
+		}
+		candidates.push(...node.spread)
+		const segment = segments[i]
+		const child = node.static.get(segment.toLowerCase())
+		if (child) collect(child, segments, i + 1, candidates)
+		if (node.param && segment) collect(node.param, segments, i + 1, candidates)
+	}
+
+	// routes that could match `path`, in route order
+	function candidates(path: string): Route[] {
+		// trailing slashes are optional, as in `path-to-regexp`
+		const trimmed = path.length > 1 ? path.replace(/\/$/, '') : path
+		const routes: Route[] = []
+		collect(root, trimmed.split('/').slice(1), 0, routes)
+		return routes.sort((a, b) => (a.order - b.order) || (sequence.get(a)! - sequence.get(b)!))
+	}
+
+	return {
+		insert(route: Route) {
+			const list = routeList(route)
+			if (list.includes(route)) return
+			list.push(route)
+			sequence.set(route, count++)
+		},
+		match(path: string): TrieMatch | false {
+			for (const route of candidates(path)) {
+				const matches = route.match(path)
+				if (matches) return { route, matches }
+			}
+			return false
+		},
+		// every route that matches `path`, in route order
+		matchAll(path: string): TrieMatch[] {
+			const matched: TrieMatch[] = []
+			for (const route of candidates(path)) {
+				const matches = route.match(path)
+				if (matches) matched.push({ route, matches })
+			}
+			return matched
+		},
+	}
+}
@@ -1,16 +1,30 @@
 import { h, hydrate } from 'preact'
 
+// islands from every client entry on the page (e.g. the route's and its layouts')
+const registered: Record<string, any> = {}
+
+// islands connected before the entry that imports them has loaded
+const waiting = new Set<HTMLElement>()
+
+function hydrateIsland(element: HTMLElement) {
+	if (!element.dataset.import) return
+	const component = registered[element.dataset.import]
+	if (!component) return waiting.add(element)
+	waiting.delete(element)
+	const props = JSON.parse(element.dataset.props  || '{}')
+	hydrate(h(component, props), element)
+}
+
 export const client = (islands: Record<string, any>) => {
+	Object.assign(registered, islands)
+	for (const element of waiting) hydrateIsland(element)
 	if (customElements.get('preact-island')) return
 	customElements.define('preact-island', class PreactIsland extends HTMLElement {
 		constructor() { 
 			super()
 		}
 	  	async connectedCallback() {
-	  		if (!this.dataset.import) return
-	  		const component = islands[this.dataset.import]
-	  		const props = JSON.parse(this.dataset.props  || '{}')
-	  		hydrate(h(component, props), this)
+	  		hydrateIsland(this)
 		}
 	})
-}
\ No newline at end of file
+}
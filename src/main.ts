@@ -5,5 +5,13 @@
 
 // main plugins
 export { islands } from './vite/islands.ts'
-export { fileRouter, fileRouterMiddleware } from './vite/fileRouter.ts'
-export { client } from './vite/client.ts'
\ No newline at end of file
+export { fileRouter } from './vite/fileRouter.ts'
+export { fileRouterMiddleware } from './file-router/middleware.ts'
+export { client } from './vite/client.ts'
+
+// renderers for framework output from file router routes
+export { preactRenderer } from './file-router/renderers.ts'
+export type { Renderer } from './file-router/renderers.ts'
+
+// regenerate prerendered pages
+export { revalidatePath } from './file-router/revalidate.ts'
\ No newline at end of file
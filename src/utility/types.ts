@@ -9,12 +9,12 @@ export function isRecord(obj: unknown): obj is Record<string, unknown> {
 }
 
 
-export function isRecordWithKeys(obj: object, keys: string[]): obj is Record<PropertyKey, string | string[]> {
+export function isRecordWithKeys(obj: object, keys: string[]): obj is Record<PropertyKey, string | number | string[]> {
   if (!isRecord(obj)) return false
   const record = obj as Record<PropertyKey, unknown>
   return keys.every(key =>
     key in record && (
-      typeof record[key] === "string" || (
+      typeof record[key] === "string" || typeof record[key] === "number" || (
         Array.isArray(record[key]) && record[key].every(v => typeof v === "string")
       )
     )
@@ -29,4 +29,10 @@ export function isIterable(x: unknown): x is Iterable<unknown> {
 
 export function isObject(obj: unknown): obj is object {
   return obj === Object(obj)
+}
+
+export function isPlainObject(obj: unknown): obj is Record<string, unknown> {
+  if (!isRecord(obj)) return false
+  const proto = Object.getPrototypeOf(obj)
+  return proto === Object.prototype || proto === null
 }
\ No newline at end of file
@@ -4,7 +4,7 @@ import { sha } from './../utility/crypto.ts'
 import { isKebabCase } from '../utility/string.ts'
 import { clientCompiler } from './clientCompiler.ts'
 
-import type { Plugin, UserConfig, ResolvedConfig, ViteDevServer, Rollup, ModuleNode } from 'vite'
+import type { Plugin, UserConfig, ResolvedConfig, ViteDevServer, Rollup, ModuleNode, Manifest } from 'vite'
 
 
 type ClientImport = {
@@ -37,6 +37,8 @@ class ClientBundle {
 	devName: string
 	imports: ClientImports = new Map()
 	code: string[] = []
+	// built chunks in vite manifest format, with entries keyed by their ssr entry (build mode only)
+	manifest: Manifest = {}
 
 	stringify: BundleStringifier = ({ imports, variables, code }) => {
 		return imports.concat(code).join("\n") 
@@ -238,6 +240,7 @@ export function bundlePlugin(): Plugin[] {
 	let initiated = false
 	api.initiate = () => initiated = true
 	api.state = () => initiated
+	api.manifest = (): Manifest => Object.assign({}, ...Object.values(bundles).map(bundle => bundle.manifest))
 
 	return [
 		{
@@ -273,35 +276,60 @@ export function bundlePlugin(): Plugin[] {
 				await Promise.all(bundleInstances.map(async bundle => {
 					const entriesToImports = getBuildEntriesToImports(pluginContext, bundle.imports)
 					
-					const { 
-						global: globalCode, 
-						// TODO: supports route-specific bundles 
-						// rather than only global code
-						...routeCode 
-					} = createClientCode(entriesToImports, bundle)
-
-					const manifest = await clientCompiler(bundle.name, ssrResolvedConfig, ssrUserConfig, globalCode)
+					// each ssr entry (e.g. a route) gets its own client entry, 
+					// so pages only load the islands they use
+					const { global: _globalCode, ...routeCode } = createClientCode(entriesToImports, bundle)
+					bundle.manifest = {}
+					if (!Object.keys(routeCode).length) return
+
+					const entryNames = clientEntryNames(bundle.name, Object.keys(routeCode))
+					const entries: Record<string, string> = {}
+					for (const [entry, entryName] of entryNames) entries[entryName] = routeCode[entry]
+
+					const manifest = await clientCompiler(bundle.name, ssrResolvedConfig, ssrUserConfig, entries)
 					if (!('output' in manifest)) return
 
-					manifest.output.map(file => {
-						if (!file.name || file.type === 'asset') return
-						const name = `${file.name}.js`
-						const fileName = file.fileName.replace(/^assets\//, '')
+					const chunks = manifest.output.filter(file => file.type === 'chunk')
+					const emittedFileNames = new Map(chunks.map(file => [
+						file.fileName, 
+						path.join(ssrResolvedConfig.build.assetsDir, file.fileName.replace(/^assets\//, ''))
+					]))
+
+					// entries are keyed by their ssr entry, relative to the root like vite's manifest,
+					// and shared chunks by their file name
+					const ssrEntries = new Map([...entryNames].map(([entry, entryName]) => [entryName, entry]))
+					const manifestKey = (file: Rollup.OutputChunk) => {
+						const entry = file.isEntry && ssrEntries.get(file.name)
+						return entry 
+							? path.relative(ssrResolvedConfig.root, entry) 
+							: emittedFileNames.get(file.fileName)!
+					}
+					const keysByFileName = new Map(chunks.map(file => [file.fileName, manifestKey(file)]))
+
+					chunks.map(file => {
+						const fileName = emittedFileNames.get(file.fileName)!
 						
 						pluginContext.emitFile({
 							type: 'asset',
-							name: name,
-							fileName: path.join(ssrResolvedConfig.build.assetsDir, fileName),
+							name: `${file.name}.js`,
+							fileName,
 							needsCodeReference: true,
-							originalFileName: name,
+							originalFileName: `${file.name}.js`,
 							source: file.code
 						})
 
+						bundle.manifest[manifestKey(file)] = {
+							file: fileName,
+							name: file.name,
+							isEntry: file.isEntry || undefined,
+							imports: file.imports.map(imported => keysByFileName.get(imported)!).filter(Boolean)
+						}
+
 						if (file.map) {
 							const mapName = fileName.concat('.map')
 							pluginContext.emitFile({
 								type:'asset',
-								fileName: path.join(ssrResolvedConfig.build.assetsDir, mapName),
+								fileName: mapName,
 								needsCodeReference: false,
 								source: JSON.stringify(file.map)
 							})
@@ -363,6 +391,34 @@ export function bundlePlugin(): Plugin[] {
 }
 
 
+/**
+ * Names for each entry's client bundle, from the entry's file name, e.g. `client-index`
+ */
+function clientEntryNames(bundleName: string, entries: string[]) {
+	const names = new Map<string, string>()
+	const used = new Set<string>()
+	for (const entry of entries) {
+		const base = `${bundleName}-${path.parse(entry).name.replace(/[^\w-]/g, '')}`
+		let name = base
+		for (let i = 2; used.has(name); i++) name = `${base}-${i}`
+		used.add(name)
+		names.set(entry, name)
+	}
+	return names
+}
+
+
+/**
+ * Built client chunks for every bundle, in vite manifest format,
+ * or an empty manifest if no plugins use a client bundle
+ */
+export function findClientManifest(config: ResolvedConfig): Manifest {
+	const first = config.plugins.find(plugin => plugin?.name === 'ssr-tools:bundle')
+	if (!first || !first.api.state()) return {}
+	return first.api.manifest()
+}
+
+
 export function findBundleApi(config: ResolvedConfig): BundlePublicAPI | never {
 	const first = config.plugins.find(plugin => plugin?.name === 'ssr-tools:bundle')
 	if (!first) throw new Error("No bundle API found")
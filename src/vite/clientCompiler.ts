@@ -5,12 +5,13 @@ import { importUserModule } from '../utility/userEnv.ts'
 import type { build, Plugin, UserConfig, ResolvedConfig } from 'vite'
 
 /**
- * Sub compiler to bundle client code, 
+ * Sub compiler to bundle client code, with the code for each entry by name.
  * Takes initial settings from main SSR compilation config
  */
-export async function clientCompiler(name: string, ssrResolvedConfig: ResolvedConfig, ssrUserConfig: UserConfig, clientCode: string) {
+export async function clientCompiler(name: string, ssrResolvedConfig: ResolvedConfig, ssrUserConfig: UserConfig, entries: Record<string, string>) {
 
-	const clientVirtualId = `/${name}`
+	// entries are loaded from virtual modules, e.g. `/client-index`
+	const clientVirtualIds = new Map(Object.keys(entries).map(entry => [`/${entry}`, entry]))
 
 	const ssrPlugins = ssrUserConfig?.plugins || []
 	const clientPlugins = (ssrPlugins.flat() as Plugin[])
@@ -38,7 +39,7 @@ export async function clientCompiler(name: string, ssrResolvedConfig: ResolvedCo
 			outDir: clientOutDir,
 			rollupOptions: {
 				...(ssrUserConfig?.build?.rollupOptions || {}),
-				input: [clientVirtualId],
+				input: Object.fromEntries([...clientVirtualIds].map(([id, entry]) => [entry, id])),
 				output: {}
 			}
 		},
@@ -48,11 +49,12 @@ export async function clientCompiler(name: string, ssrResolvedConfig: ResolvedCo
 				name: 'ssr-tools:client-bundle',
 				enforce: 'pre',
 				resolveId(id) {
-					if (id === clientVirtualId) return clientVirtualId
+					if (clientVirtualIds.has(id)) return id
 				},
 				load(id) {
-					if (id === clientVirtualId) {
-						return clientCode
+					const entry = clientVirtualIds.get(id)
+					if (entry !== undefined) {
+						return entries[entry]
 					}
 				}
 			},
@@ -0,0 +1,40 @@
+import { createDevRouteTable } from './devRouteTable.ts'
+import { MultiError } from './../utility/MultiError.ts'
+
+const dir = '/pages'
+const matchFiles = /^\/pages\/.+\.ts$/
+
+describe('dev route table', () => {
+
+	test('is only rebuilt when routes are added or removed', () => {
+		const table = createDevRouteTable({ dir, files: ['/pages/index.ts'], matchFiles })
+		const routes = table.routes()
+		expect(table.routes()).toBe(routes)
+
+		table.add('/pages/about.ts')
+		const added = table.routes()
+		expect(added).not.toBe(routes)
+		expect(added.matchRoute('/about')).toMatchObject({ route: { name: '/about.ts' } })
+
+		table.remove('/pages/about.ts')
+		expect(table.routes()).not.toBe(added)
+		expect(table.routes().matchRoute('/about')).toBe(false)
+	})
+
+	test('ignores files that aren\'t routes', () => {
+		const table = createDevRouteTable({ dir, files: ['/pages/index.ts'], matchFiles })
+		const routes = table.routes()
+		table.add('/pages/styles.css')
+		table.add('/pages/index.ts')
+		table.remove('/src/other.ts')
+		expect(table.routes()).toBe(routes)
+	})
+
+	test('throws again until conflicting routes are fixed', () => {
+		const table = createDevRouteTable({ dir, files: ['/pages/about.ts', '/pages/about/index.ts'], matchFiles })
+		expect(() => table.routes()).toThrow(MultiError)
+		expect(() => table.routes()).toThrow(MultiError)
+		table.remove('/pages/about/index.ts')
+		expect(table.routes().matchRoute('/about')).toMatchObject({ route: { name: '/about.ts' } })
+	})
+})
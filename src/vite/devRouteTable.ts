@@ -0,0 +1,39 @@
+import { buildRoutes } from './../file-router/routes.ts'
+import type { Routes } from './../file-router/routes.ts'
+import type { ParamMatchers } from './../file-router/matchers.ts'
+
+export type DevRouteTable = ReturnType<typeof createDevRouteTable>
+
+type DevRouteTableArgs = {
+	dir: string
+	// route files found when the dev server starts
+	files: string[]
+	// tests whether an added file is a route
+	matchFiles: RegExp
+	matchers?: ParamMatchers
+}
+
+/**
+ * Route table for dev, which is only rebuilt when route files are added or removed
+ * (e.g. from the dev server's file watcher)
+ */
+export function createDevRouteTable({ dir, files, matchFiles, matchers }: DevRouteTableArgs) {
+	const routeFiles = new Set(files)
+	let routes: Routes | undefined
+
+	return {
+		// invalid and conflicting routes aren't cached, so the error is thrown again on the next request
+		routes(): Routes {
+			return routes ||= buildRoutes({ dir, files: [...routeFiles], matchers })
+		},
+		add(file: string) {
+			if (!matchFiles.test(file) || routeFiles.has(file)) return
+			routeFiles.add(file)
+			routes = undefined
+		},
+		remove(file: string) {
+			if (!routeFiles.delete(file)) return
+			routes = undefined
+		},
+	}
+}
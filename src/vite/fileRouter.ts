@@ -1,26 +1,40 @@
 import fs from 'fs-extra'
 import path from 'node:path'
-import { resolveConfig } from 'vite'
 import glob from 'fast-glob'
 import globToRegexp from 'glob-to-regexp'
-import serveStatic from 'serve-static'
-import { addToHead, addToBody } from './../file-router/html.ts'
+import { assetTransforms, fontType } from './../file-router/assets.ts'
 import { buildRoutes } from './../file-router/routes.ts'
-import { BuildStatic, devRequestHandler } from './../file-router/processRoutes.ts'
+import { MultiError } from './../utility/MultiError.ts'
+import { 
+	BuildStatic, 
+	devRequestHandler, 
+	notFoundRequestHandler
+} from './../file-router/processRoutes.ts'
+import { 
+	createRouteManifest, 
+	prerenderManifestFileName, 
+	routeManifestFileName 
+} from './../file-router/routeManifest.ts'
+import { defaultRenderers } from './../file-router/renderers.ts'
 import * as middleware from './../file-router/middleware.ts'
-import { webRequestFromNode, sendNodeResponse } from './../file-router/request.ts'
-import { devStyles, findConfigFile, toAbsolutePath } from './utility.ts'
+import { webRequestFromNode, sendNodeResponse, stripBase } from './../file-router/request.ts'
+import { basePath, devStyles, manifestDependencies, toAbsolutePath } from './utility.ts'
 import { isObject } from './../utility/object.ts'
 import { sha, random } from './../utility/crypto.ts'
 import { ssrHotModuleReload } from './ssrHotModuleReload.ts'
+import { findClientManifest } from './bundlePlugin.ts'
 import { viteDevErrorPayload } from './viteDevErrorPayload.ts'
+import { createDevRouteTable } from './devRouteTable.ts'
 
 import type { CSS } from './utility.ts'
-import type { PluginOption, ResolvedConfig } from 'vite'
+import type { DevRouteTable } from './devRouteTable.ts'
+import type { Routes, MatchedRoute } from './../file-router/routes.ts'
+import type { ParamMatchers } from './../file-router/matchers.ts'
+import type { Renderer } from './../file-router/renderers.ts'
+import type { PreloadHeaders } from './../file-router/assets.ts'
+import type { Manifest, PluginOption, ResolvedConfig } from 'vite'
 import type { OutputChunk, OutputAsset } from 'rollup'
-
-// @ts-ignore
-import createRouter from 'router'
+import type { ServerResponse } from 'node:http'
 
 
 type NonOptional<T> = { 
@@ -30,10 +44,22 @@ type NonOptional<T> = {
 type FileRouterUserOptions = {
 	dir?: string,
 	glob?: string,
-	removeTrailingSlash?: boolean
+	removeTrailingSlash?: boolean,
+	stream?: boolean,
+	matchers?: ParamMatchers,
+	prerender?: boolean,
+	renderers?: readonly Renderer[],
+	preloadHeaders?: PreloadHeaders,
+	assetsPrefix?: string
 }
 
 type FileRouterOptions = NonOptional<FileRouterUserOptions>
+
+// marks html from error routes in dev, with the error route module, e.g. `<!--dev-error-route:/abs/path/_error.tsx-->`
+const devErrorRouteMatch = /^<!--dev-error-route:(.*?)-->/
+
+// marks html from routes in dev, with the route module, e.g. `<!--dev-route:/abs/path/index.tsx-->`
+const devRouteMatch = /^<!--dev-route:(.*?)-->/
 type SettingsFromConfig = ReturnType<typeof settingsFromConfig>
 
 /**
@@ -49,7 +75,22 @@ export function fileRouter(opts: FileRouterUserOptions): PluginOption {
 	const defaults: FileRouterOptions = { 
 		dir: 'src/pages', 
 		glob: '**/*.{ts,tsx,js,jsx}', 
-		removeTrailingSlash: true
+		removeTrailingSlash: true,
+		// stream html responses in production
+		// (dev responses are buffered, so vite can transform the html)
+		stream: false,
+		// custom param matchers, e.g. `[lang=locale]`
+		matchers: {},
+		// render routes to static files at build time, 
+		// unless a route exports `prerender = false`
+		prerender: true,
+		// render framework output returned from routes, e.g. preact elements
+		renderers: defaultRenderers,
+		// send preload hints for each page's assets in production, 
+		// as `Link` headers ('link'), or also as `103 Early Hints` ('early-hints')
+		preloadHeaders: false,
+		// prefix for asset urls added to pages, e.g. a CDN (defaults to vite's `base`)
+		assetsPrefix: ''
 	}
 
 	const userOptions = { 
@@ -60,6 +101,9 @@ export function fileRouter(opts: FileRouterUserOptions): PluginOption {
 	const stylesheets = new Map<string, CSS[]>()
 	let matchFiles: RegExp
 
+	// route table for dev, updated by the file watcher when routes are added or removed
+	let devRoutes: DevRouteTable
+
 	return [
 		{
 			name: 'ssr-tools:file-router',
@@ -134,19 +178,33 @@ export function fileRouter(opts: FileRouterUserOptions): PluginOption {
 				// what's the preferred solution to this?
 				// Astro just sends chrome devtools to next()
 				// https://github.com/withastro/astro/blob/main/packages/astro/src/vite-plugin-astro-server/plugin.ts#L142
-				const routes = buildRoutes({
-					dir: settings.routerDirAbsolute,
-					files: glob.sync(settings.routerGlobAbsolute),
-				})
-				const matched = routes.matchRoute(ctx.path)
-				if (!matched) return
+				let routes: Routes
+				try {
+					routes = devRoutes.routes()
+				} catch(e) {
+					// route errors are displayed by the dev middleware
+					return
+				}
 
-				const isErrorRoute = html.startsWith('<!--dev-error-route-->')
-				const mod = isErrorRoute ? matched.route.error?.module : matched.route.module
+				// pages are marked with the rendered route module (as routes can pass through),
+				// and error pages (and not found pages) with the error route module
+				const errorModule = html.match(devErrorRouteMatch)?.[1]
+				const routeModule = html.match(devRouteMatch)?.[1]
+				const isErrorRoute = errorModule !== undefined
+				const routePath = stripBase(ctx.path, settings.base)
+				const matched = isErrorRoute || routeModule || routePath === undefined 
+					? false 
+					: routes.matchRoute(routePath)
+				const route = routeModule ? routes.findRouteByFile(routeModule) : matched ? matched.route : null
+				const mod = isErrorRoute ? routes.findErrorRouteByFile(errorModule)?.module : route?.module
 				if (!mod) return
 
-				const importedModules = ctx.server.moduleGraph.getModulesByFile(mod)
-				if (!importedModules) return
+				// include styles imported by the route's layouts
+				const layouts = route ? route.layouts.map(layout => layout.module) : []
+				const importedModules = new Set([mod, ...layouts].flatMap(file => {
+					return [...ctx.server?.moduleGraph.getModulesByFile(file) || []]
+				}))
+				if (!importedModules.size) return
 
 				// save stylesheets indexed per module for use in load hook
 				const id = sha(mod)
@@ -161,7 +219,7 @@ export function fileRouter(opts: FileRouterUserOptions): PluginOption {
 						tag: 'link',
 						attrs: {
 							rel: 'stylesheet',
-							href: `/@file-router-styles.css?id=${id}&v=${refresh}`,
+							href: `${settings.base}@file-router-styles.css?id=${id}&v=${refresh}`,
 						},
 						injectTo: 'head'
 					},
@@ -171,7 +229,7 @@ export function fileRouter(opts: FileRouterUserOptions): PluginOption {
 						tag: 'script',
 						attrs: {
 							type: 'module',
-							src: `/@file-router-styles-dev?id=${id}&v=${refresh}`,
+							src: `${settings.base}@file-router-styles-dev?id=${id}&v=${refresh}`,
 						},
 						injectTo: 'body'
 					}
@@ -197,7 +255,7 @@ export function fileRouter(opts: FileRouterUserOptions): PluginOption {
 						.join('\n')
 						+ `
 						if (import.meta.hot) {
-							const initial = document.querySelector('link[href^="/@file-router-styles.css"]')
+							const initial = document.querySelector('link[href^="${settings.base}@file-router-styles.css"]')
 							initial.remove()
 						}
 						`.replaceAll(/^\t{5}/gm, '')
@@ -205,18 +263,48 @@ export function fileRouter(opts: FileRouterUserOptions): PluginOption {
 			},
 
 			configureServer(server) {
+
+				// send blank error page to client, so hot reload errors can be displayed
+				async function sendDevError(errors: MultiError, res: ServerResponse) {
+					res.end(
+						await server.transformIndexHtml(
+							'/@file-router-default-error', 
+							'<!--dev-error-route:default--><html></html>'
+						)
+					)
+					console.error(errors)
+					// send error as soon as the response has closed & the websocket connection has connected
+					// (remove the connection event listener after it's sent, so it only applies to this request)
+					res.addListener('close', () => {
+						server.environments.client.hot.on('connection', function sendErrorPayload() {
+							server.environments.client.hot.send(viteDevErrorPayload(errors))
+							server.environments.client.hot.off('connection', sendErrorPayload)
+						})
+					})
+				}
+
 		    	server.watcher.add([
 		    		settings.routerDirAbsolute, 
 		    		settings.routerGlobAbsolute
 		    	])
+
+		    	// scan for routes once, then keep the list of files up to date from the watcher
+		    	devRoutes = createDevRouteTable({
+		    		dir: settings.routerDirAbsolute,
+		    		files: glob.sync(settings.routerGlobAbsolute),
+		    		matchFiles,
+		    		matchers: userOptions.matchers,
+		    	})
+		    	server.watcher.on('add', file => devRoutes.add(file))
+		    	server.watcher.on('unlink', file => devRoutes.remove(file))
 		    	if (userOptions.removeTrailingSlash) {
-		    		server.middlewares.use(middleware.removeTrailingSlash)
+		    		server.middlewares.use(middleware.removeTrailingSlash(settings.base))
 		    	}
 
 				return () => {
 					// clear cache for styles
 					server.middlewares.use(async (req, res, next) => {
-						if (req.originalUrl && req.originalUrl.startsWith('/@file-router-styles')) {
+						if (req.originalUrl && req.originalUrl.startsWith(`${settings.base}@file-router-styles`)) {
 							res.setHeader('Cache-Control', 'no-cache')
 						}
 						next()
@@ -225,58 +313,76 @@ export function fileRouter(opts: FileRouterUserOptions): PluginOption {
 					server.middlewares.use(async (req, res, next) => {
 						const url = req.originalUrl
 						if (!url) return next()
-						const routes = buildRoutes({
-							dir: settings.routerDirAbsolute,
-							files: glob.sync(settings.routerGlobAbsolute),
-						})
-						const matchedRoute = routes.matchRoute(url)
-						if (!matchedRoute) return next()
-						const { route, params } = matchedRoute
+						// routes are matched relative to vite's `base`, without the query string
+						const routePath = stripBase(url.replace(/[?#].*$/, ''), settings.base)
+						if (routePath === undefined) return next()
+						let routes: Routes
+						try {
+							routes = devRoutes.routes()
+						} catch(e) {
+							// connect doesn't handle rejected middleware, so every error is sent to the client
+							if (e instanceof MultiError) return sendDevError(e, res)
+							return sendDevError(new MultiError('invalid routes').add(e as Error), res)
+						}
+						let matched: MatchedRoute[]
+						try {
+							matched = routes.matchRoutes(routePath)
+						} catch(e) {
+							// urls with malformed escapes (e.g. `%E0%A4%A`) can't be decoded
+							if (!(e instanceof URIError)) return next(e)
+							res.statusCode = 400
+							return res.end()
+						}
 						const request = webRequestFromNode(req, res)
-						const [response, errors] = await devRequestHandler({
-							request,
-							route,
-							params, 
-							importer: server.ssrLoadModule,
-							fixStacktrace: server.ssrFixStacktrace,
-							htmlTransform: (html, { isErrorRequest }) => {
-								if(!isErrorRequest) return server.transformIndexHtml(url, html)
-								const errorUrl = route.error?.routepath || ''
-								return server.transformIndexHtml(
-									errorUrl, `<!--dev-error-route:${errorUrl}-->${html}`
-								)
-							}
-						})
 
-						if (!errors.length) {
-							return sendNodeResponse(response, res)
+						// try each matching route in order, until one doesn't pass through
+						for (const { route, params } of matched) {
+							const [response, errors] = await devRequestHandler({
+								request,
+								route,
+								params, 
+								importer: server.ssrLoadModule,
+								renderers: userOptions.renderers,
+								fixStacktrace: server.ssrFixStacktrace,
+								htmlTransform: (html, { errorRoute }) => {
+									if(!errorRoute) return server.transformIndexHtml(
+										url, `<!--dev-route:${route.module}-->${html}`
+									)
+									return server.transformIndexHtml(
+										url, `<!--dev-error-route:${errorRoute.module}-->${html}`
+									)
+								}
+							})
+							if (errors.length) return sendDevError(errors, res)
+							if (response) return sendNodeResponse(response, res)
 						}
 
-						// send blank error page to client, so hot reload errors can be displayed
-						res.end(
-							await server.transformIndexHtml(
-								'/@file-router-default-error', 
-								'<!--dev-error-route:default--><html></html>'
+						// render unmatched urls with the `_404` or `_error` routes if they exist
+						const errorRoute = routes.findNotFoundRoute(routePath)
+						if (!errorRoute) return next()
+						const [response, errors] = await notFoundRequestHandler({
+							errorRoute,
+							request,
+							importer: server.ssrLoadModule,
+							renderers: userOptions.renderers,
+							fixStacktrace: server.ssrFixStacktrace,
+							htmlTransform: html => server.transformIndexHtml(
+								url, `<!--dev-error-route:${errorRoute.module}-->${html}`
 							)
-						)
-						if (!(errors instanceof Error)) return
-						console.error(errors)
-						// send error as soon as the response has closed & the websocket connection has connected
-						// (remove the connection event listener after it's sent, so it only applies to this request)
-						res.addListener('close', () => {
-							server.environments.client.hot.on('connection', function sendErrorPayload() {
-								server.environments.client.hot.send(viteDevErrorPayload(errors))
-								server.environments.client.hot.off('connection', sendErrorPayload)
-							})
 						})
+						if (!errors.length) return sendNodeResponse(response, res)
+						return sendDevError(errors, res)
 					})
 				}
 			},
 
 			async writeBundle(_options, bundle) {
 
+				// routes without styles or client imports don't emit any assets
+				const hasAssets = fs.existsSync(settings.assetsDirAbsolute)
+
 				// copy assets to server directory
-				fs.cpSync(
+				if (hasAssets) fs.cpSync(
 					settings.assetsDirAbsolute, 
 					settings.ssrAssetsDirAbsolute,
 					{ recursive: true }
@@ -305,48 +411,114 @@ export function fileRouter(opts: FileRouterUserOptions): PluginOption {
 				if (!Object.keys(chunks).length) return remove()
 
 				// copy assets to static directory and delete original assets
-				fs.cpSync(settings.assetsDirAbsolute, settings.staticAssetsDirAbsolute, {recursive: true });
+				if (hasAssets) fs.cpSync(settings.assetsDirAbsolute, settings.staticAssetsDirAbsolute, {recursive: true });
 				remove()
 
-				// gather scripts and styles to result from bundle manifest
-				const stylesheets: string[] = []
-				if (assets['style.css']) {
-					const src = '/' + assets['style.css'].fileName
-					stylesheets.push(`<link rel="stylesheet" href="${src}">`)
-				}
-				const scripts: string[] = []
-				if (assets['client.js']) {
-					const src = '/' + assets['client.js'].fileName
-					scripts.push(`<script src="${src}"></script>`)
+				// vite copies the public directory to the build directory: 
+				// move it to the server and static output, so the build output is self-contained
+				const hasPublicDir = Boolean(
+					config.publicDir 
+					&& config.build.copyPublicDir 
+					&& fs.existsSync(config.publicDir)
+				)
+				if (hasPublicDir) {
+					fs.cpSync(config.publicDir, settings.ssrPublicDirAbsolute, { recursive: true })
+					fs.cpSync(config.publicDir, settings.staticBaseDirAbsolute, { recursive: true })
+					const outputDirs = [settings.ssrBuildDirAbsolute, settings.staticBuildDirAbsolute, toRemove]
+					for (const file of fs.readdirSync(config.publicDir)) {
+						const copied = path.join(settings.buildDirAbsolute, file)
+						if (outputDirs.includes(copied)) continue
+						fs.rmSync(copied, { recursive: true, force: true })
+					}
 				}
 
-				// build routes for compilation
-				const routes = buildRoutes({
-					dir: settings.routerDirAbsolute,
-					files: glob.sync(settings.routerGlobAbsolute),
-					setImport: absPath => {
-						const chunk = chunks[absPath]
-						if (!chunk) return
-						return path.join(settings.buildDirAbsolute, chunk.fileName)
+				// without css code splitting, styles are bundled into one stylesheet for every page
+				const stylesheetUrls: string[] = []
+				if (!config.build.cssCodeSplit) {
+					for (const asset of Object.values(assets)) {
+						if (asset.fileName.endsWith('.css')) stylesheetUrls.push(settings.assetsPrefix + asset.fileName)
 					}
-				})
-				
+				}
+				// vite manifest, for css imported by each route
+				const manifest: Manifest = settings.manifestPathAbs && fs.existsSync(settings.manifestPathAbs)
+					? JSON.parse(fs.readFileSync(settings.manifestPathAbs, 'utf8'))
+					: {}
+
+				// client bundle (from the islands and client plugins), with an entry for each route
+				// that uses islands or client imports
+				const clientManifest = findClientManifest(config)
+
 				try {
-					const buildStatic = new BuildStatic()
+					// manifest keys for built route modules
+					const manifestKeys = new Map<string, string>()
+
+					// build routes for compilation
+					// (throws on conflicting routes)
+					const routes = buildRoutes({
+						dir: settings.routerDirAbsolute,
+						files: glob.sync(settings.routerGlobAbsolute),
+						matchers: userOptions.matchers,
+						setImport: absPath => {
+							const chunk = chunks[absPath]
+							if (!chunk) return
+							const built = path.join(settings.buildDirAbsolute, chunk.fileName)
+							manifestKeys.set(built, path.relative(settings.root, absPath))
+							return built
+						}
+					})
+
+					// describe the built routes, so they can be served without vite
+					const routeManifest = createRouteManifest({
+						routes,
+						dir: settings.ssrBuildDirAbsolute,
+						base: settings.base,
+						staticDir: path.relative(settings.ssrBuildDirAbsolute, settings.staticBaseDirAbsolute),
+						assetsDir: path.relative(settings.ssrBuildDirAbsolute, settings.ssrAssetsDirAbsolute),
+						assetsUrl: settings.base + path.relative(settings.buildDirAbsolute, settings.assetsDirAbsolute),
+						publicDir: hasPublicDir 
+							? path.relative(settings.ssrBuildDirAbsolute, settings.ssrPublicDirAbsolute) 
+							: null,
+						stylesheets: stylesheetUrls,
+						stream: userOptions.stream,
+						prerender: userOptions.prerender,
+						removeTrailingSlash: userOptions.removeTrailingSlash,
+						preloadHeaders: userOptions.preloadHeaders,
+						routeAssets: route => {
+							const key = manifestKeys.get(route.module)
+							if (!key) return { stylesheets: [], scripts: [], modulepreloads: [], preloads: [] }
+							const { css, assets } = manifestDependencies(manifest, [key])
+							// the route's client entry, and the chunks it imports
+							const script = clientManifest[key]?.file
+							const { imports } = manifestDependencies(clientManifest, [key])
+							return { 
+								stylesheets: css.map(file => settings.assetsPrefix + file),
+								scripts: script ? [settings.assetsPrefix + script] : [],
+								modulepreloads: imports.map(file => settings.assetsPrefix + file),
+								// only fonts are preloaded, as images may not be used above the fold
+								preloads: assets.filter(file => fontType(file)).map(file => settings.assetsPrefix + file)
+							}
+						}
+					})
+					fs.outputFileSync(settings.routeManifestPathAbs, JSON.stringify(routeManifest, null, 2))
+
+					const buildStatic = new BuildStatic({ base: settings.base })
 					buildStatic.add(...routes.routes)
+					buildStatic.addNotFound(routes.findNotFoundRoute('/404'))
 					await buildStatic.build({ 
 						importer: async path => await import(path),
-						htmlTransform: async html => {
-							if (stylesheets.length)  html = addToHead(html, stylesheets)
-							if (scripts.length) html = addToBody(html, scripts)
-							return html
-						}
+						prerender: userOptions.prerender,
+						renderers: userOptions.renderers,
+						htmlTransform: assetTransforms({
+							stylesheets: routeManifest.stylesheets,
+							routes: Object.fromEntries(routeManifest.routes.map(route => [route.name, route.assets]))
+						}).htmlTransform
 					})
 
 					await buildStatic.write(
-						settings.staticBuildDirAbsolute,
+						settings.staticBaseDirAbsolute,
 						settings.buildDirAbsolute
 					)
+					await buildStatic.writeManifest(settings.prerenderManifestPathAbs)
 				} catch(e) {
 					console.error(e)
 					const endBuild = new Error()
@@ -359,116 +531,6 @@ export function fileRouter(opts: FileRouterUserOptions): PluginOption {
 	]
 }
 
-/**
- * Middleware that initialises the file router with settings from vite plugin
- */
-export async function fileRouterMiddleware(configPathOrFolder: string = '') {
-
-	const configFile = findConfigFile(configPathOrFolder)
-	const viteConfig = await resolveConfig({
-		configFile: configFile
-	}, 'build')
-
-	const plugin = viteConfig.plugins.find(plugin => plugin.name === 'ssr-tools:file-router')?.api
-	if (!plugin) throw new Error(`No ssr-tools:file-router plugin found — please add to your vite config`)
-
-	const userOptions = plugin.userOptions()
-
-	const settings = settingsFromConfig(viteConfig, userOptions)
-	if (!settings.manifestPathAbs) throw new Error(`No manifest found at ${settings.manifestPathAbs}`)
-
-	const manifest = JSON.parse(fs.readFileSync(settings.manifestPathAbs, 'utf8'))
-
-	const routes = buildRoutes({
-		dir: settings.routerDirAbsolute,
-		files: glob.sync(settings.routerGlobAbsolute),
-		setImport: absPath => {
-			// use manifest to have buildRoutes match against the built files rather than source
-			const importPathRelative = absPath.replace(settings.root + '/', '')
-			const routeInfo = manifest[importPathRelative]
-			if (!routeInfo) return
-			return path.join(settings.buildDirAbsolute, routeInfo.file)
-		}
-	})
-
-	const main = async (req: any, res: any, next: any) => {
-
-		const url = req.originalUrl
-		if (!url) return next()
-		const matchedRoute = routes.matchRoute(url)
-		if (!matchedRoute) {
-			// TODO: needs default _error handling for 404s
-			// this function should return next(), but we still need to queue the default
-			// error handler as the last middleware for 404s.
-			// for now let's just respond with a basic err
-			return sendNodeResponse(new Response(null, { status: 404 }), res)
-		}
-
-		/**
-		 * TODO:
-		 * • `style.css` is hardcoded when (build.cssCodeSplit === false) in vite.config.ts
-		 *    When true, we'll need to walk the graph of imports for css/js
-		 * 
-		 * • `client.js` will pull through from islands plugins and client plugins
-		 */
-
-		// add scripts and styles to result from manifest
-		const stylesheets: string[] = []
-		if (manifest['style.css']) {
-			const src = manifest['style.css'].file
-			stylesheets.push(`<link rel="stylesheet" href="/${src}">`)
-		}
-
-		const scripts: string[] = []
-		if (manifest['client.js']) {
-			const src = manifest['client.js'].file
-			scripts.push(`<script src="/${src}"></script>`)
-		}
-
-		const { route, params } = matchedRoute
-		const request = webRequestFromNode(req, res)
-
-		// TODO: create a faster requestHandler for prod that caches 
-		// compiled routes, rather than re-importing them on every request
-		const [response, errors] = await devRequestHandler({ 
-			request, route, params,
-			htmlTransform: async html => {
-				if (stylesheets.length) html = addToHead(html, stylesheets)
-				if (scripts.length) html = addToBody(html, scripts)
-				return html
-			}
-		})
-		if (!errors.length) {
-			return sendNodeResponse(response, res)	
-		} else {
-			console.error(errors)
-			return sendNodeResponse(new Response(null, { status: 500 }), res)	
-		}	
-	}
-
-	const router = createRouter()
-
-	// remove trailing slash if necessary
-	if (userOptions.removeTrailingSlash) {
-		router.use(middleware.removeTrailingSlash)
-	}
-
-	// add assets
-	if (settings.assetsDirAbsolute) {
-		const pathToAssets = '/' + path.relative(settings.buildDirAbsolute, settings.assetsDirAbsolute)
-		router.use(pathToAssets, serveStatic(settings.ssrAssetsDirAbsolute))
-	}
-
-	// add public directory
-	if (viteConfig.publicDir) {
-		router.use(serveStatic(viteConfig.publicDir))
-	}
-
-	router.use(main)
-	return router
-}
-
-
 export function settingsFromConfig(config: ResolvedConfig, userOptions: FileRouterOptions) {
 
 	const root = config.root
@@ -483,7 +545,18 @@ export function settingsFromConfig(config: ResolvedConfig, userOptions: FileRout
 	const ssrBuildDirAbsolute = path.join(buildDirAbsolute, 'server')
 	const staticBuildDirAbsolute = path.join(buildDirAbsolute, 'html')
 	const ssrAssetsDirAbsolute = path.join(ssrBuildDirAbsolute, config.build.assetsDir)
-	const staticAssetsDirAbsolute = path.join(staticBuildDirAbsolute, config.build.assetsDir)
+	const ssrPublicDirAbsolute = path.join(ssrBuildDirAbsolute, 'public')
+
+	// url path the site is served from, e.g. `/app/`, 
+	// static pages and assets are written to the same path in the static output directory
+	const base = basePath(config.base)
+	const staticBaseDirAbsolute = path.join(staticBuildDirAbsolute, base)
+	const staticAssetsDirAbsolute = path.join(staticBaseDirAbsolute, config.build.assetsDir)
+
+	// prefix for asset urls added to pages, relative bases use the base path
+	const isRelativeBase = !config.base.startsWith('/') && !URL.canParse(config.base)
+	let assetsPrefix = userOptions.assetsPrefix || (isRelativeBase ? base : config.base)
+	if (!assetsPrefix.endsWith('/')) assetsPrefix += '/'
 	
 	let manifest = config?.build?.manifest
 	let manifestFileName: string = ''
@@ -494,15 +567,27 @@ export function settingsFromConfig(config: ResolvedConfig, userOptions: FileRout
 		? path.resolve(buildDirAbsolute, manifestFileName) 
 		: null
 
+	// prerendered routes and pages, written after the static build
+	const prerenderManifestPathAbs = path.join(ssrBuildDirAbsolute, prerenderManifestFileName)
+
+	// built routes and their assets, for `createFetchHandler`
+	const routeManifestPathAbs = path.join(ssrBuildDirAbsolute, routeManifestFileName)
+
 	return {
 		root, 
 		buildDirAbsolute, 
 		ssrBuildDirAbsolute,
 		staticBuildDirAbsolute,
+		staticBaseDirAbsolute,
+		base,
+		assetsPrefix,
 		assetsDirAbsolute, 
 		ssrAssetsDirAbsolute,
+		ssrPublicDirAbsolute,
 		staticAssetsDirAbsolute,
 		manifestPathAbs,
+		prerenderManifestPathAbs,
+		routeManifestPathAbs,
 		routerDirAbsolute,
 		routerGlobAbsolute
 	}
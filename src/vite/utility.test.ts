@@ -0,0 +1,61 @@
+import { basePath, manifestDependencies } from './utility.ts'
+import type { Manifest } from 'vite'
+
+const manifest: Manifest = {
+	'src/pages/blog/[slug].tsx': {
+		file: 'blog.js',
+		css: ['blog.css'],
+		imports: ['_shared.js', '_layout.js'],
+	},
+	'src/pages/_layout.tsx': {
+		file: '_layout.js',
+		css: ['layout.css'],
+	},
+	'_layout.js': {
+		file: 'layout-chunk.js',
+		css: ['layout.css'],
+		assets: ['font.woff2'],
+		imports: ['_shared.js'],
+	},
+	'_shared.js': {
+		file: 'shared-chunk.js',
+		css: ['shared.css'],
+		assets: ['logo.svg'],
+		imports: ['_layout.js'],
+	},
+}
+
+describe('manifest dependencies', () => {
+
+	test('collect css and assets from the import graph', () => {
+		expect(manifestDependencies(manifest, ['src/pages/blog/[slug].tsx'])).toEqual({
+			css: ['blog.css', 'shared.css', 'layout.css'],
+			assets: ['logo.svg', 'font.woff2'],
+			imports: ['shared-chunk.js', 'layout-chunk.js'],
+		})
+	})
+
+	test('only include each chunk once', () => {
+		const { css } = manifestDependencies(manifest, ['src/pages/blog/[slug].tsx', 'src/pages/_layout.tsx'])
+		expect(css).toEqual(['blog.css', 'shared.css', 'layout.css'])
+	})
+
+	test('ignore missing entries', () => {
+		expect(manifestDependencies(manifest, ['src/pages/missing.tsx'])).toEqual({ css: [], assets: [], imports: [] })
+	})
+})
+
+describe('base path', () => {
+
+	test('is the url path of vite\'s base, with a trailing slash', () => {
+		expect(basePath('/')).toBe('/')
+		expect(basePath('/app')).toBe('/app/')
+		expect(basePath('/app/')).toBe('/app/')
+		expect(basePath('https://cdn.example.com/app/')).toBe('/app/')
+	})
+
+	test('is the root for relative bases', () => {
+		expect(basePath('./')).toBe('/')
+		expect(basePath('')).toBe('/')
+	})
+})
@@ -1,8 +1,6 @@
 import path from 'node:path'
-import fs from 'node:fs'
-import glob from 'fast-glob'
 
-import type { ModuleNode, ViteDevServer } from 'vite'
+import type { Manifest, ModuleNode, ViteDevServer } from 'vite'
 
 export type CSS = { id: string | null, file: string | null, css: string | null }
 
@@ -53,38 +51,41 @@ function devCollectStyleModules(
   	return Object.values(styles)
 }
 
+export function toAbsolutePath(to: string, from: string = process.cwd()): string {
+	if (to.startsWith('/')) return to
+	if (!from.startsWith('/')) throw new Error('"from" must be an absolute path')
+	return path.join(from, to).replace(/\/$/, '')
+}
 /**
- * Find vite config file 
- * Defaults to current working directory
+ * Url path from vite's `base`, e.g. `/app/` from `/app` or `https://example.com/app/`.
+ * Relative bases are served from the root
  */
-export function findConfigFile(configPathOrFolder: string = process.cwd()): string {
-	
-	let test = configPathOrFolder
-	
-	// convert to abs
-	if (!test.startsWith('/')) {
-		test = path.join(process.cwd(), test)
-	}
+export function basePath(base: string): string {
+	let pathname = '/'
+	if (base.startsWith('/')) pathname = base
+	else if (URL.canParse(base)) pathname = new URL(base).pathname
+	return pathname.endsWith('/') ? pathname : pathname + '/'
+}
 
-	if (fs.existsSync(test)) {
-		const stat = fs.lstatSync(test)
-		if (stat.isDirectory()) {
-			const matches = glob.sync([
-				path.join(test, 'vite.config.ts'),
-				path.join(test, 'vite.config.js'),
-			])
-			if (matches.length) return matches[0]
-		}
-		if (stat.isFile()) {
-			return test
+/**
+ * Collects css, assets and chunks imported by manifest entries, walking their static imports
+ */
+export function manifestDependencies(manifest: Manifest, keys: string[]) {
+	const css = new Set<string>()
+	const assets = new Set<string>()
+	const imports = new Set<string>()
+	const seen = new Set<string>()
+	const walk = (key: string) => {
+		const chunk = manifest[key]
+		if (!chunk || seen.has(key)) return
+		seen.add(key)
+		for (const file of chunk.css || []) css.add(file)
+		for (const file of chunk.assets || []) assets.add(file)
+		for (const imported of chunk.imports || []) {
+			if (manifest[imported]) imports.add(manifest[imported].file)
+			walk(imported)
 		}
 	}
-	throw new Error(`No config file found at ${test}`)
+	for (const key of keys) walk(key)
+	return { css: [...css], assets: [...assets], imports: [...imports] }
 }
-
-
-export function toAbsolutePath(to: string, from: string = process.cwd()): string {
-	if (to.startsWith('/')) return to
-	if (!from.startsWith('/')) throw new Error('"from" must be an absolute path')
-	return path.join(from, to).replace(/\/$/, '')
-}
\ No newline at end of file